@@ -0,0 +1,194 @@
+/**
+ * CircuitBreaker - Durable Object tracking the health of one origin host
+ *
+ * Every isolate reports origin outcomes here, so they all see the same
+ * picture. When too many requests in the window fail, the circuit opens
+ * and requests are short-circuited until the cool-down is over. Then a
+ * single probe request is let through: success closes the circuit, failure
+ * opens it again.
+ *
+ * A Retry-After on its own doesn't open the circuit, since origins like B2
+ * throttle single files rather than the whole host. Once the circuit is
+ * open, the latest Retry-After sets the cool-down, up to
+ * CIRCUIT_MAX_OPEN_MS.
+ *
+ * API (JSON):
+ * - POST /acquire                                    may a request go to the origin?
+ * - POST /report  { ok, status?, retryAfter? }       outcome of a request
+ * - GET  /                                           current state
+ */
+
+import { readNumber } from './utils/config'
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface BreakerDecision {
+    allowed: boolean
+    // Seconds until the origin may be tried again, when not allowed
+    retryAfter?: number
+    probe?: boolean
+}
+
+export interface BreakerReport {
+    ok: boolean
+    status?: number
+    // Seconds the origin asked us to wait
+    retryAfter?: number
+}
+
+export interface BreakerStatus {
+    state: CircuitState
+    requests: number
+    failures: number
+    openedAt: number | null
+    openUntil: number | null
+    lastStatus: number | null
+}
+
+interface Outcome {
+    time: number
+    ok: boolean
+    retryAfter?: number
+}
+
+const DEFAULT_ERROR_RATE = 0.5
+const DEFAULT_MIN_REQUESTS = 20
+const DEFAULT_WINDOW_MS = 60 * 1000
+const DEFAULT_OPEN_MS = 30 * 1000
+const DEFAULT_MAX_OPEN_MS = 5 * 60 * 1000
+// A probe that never reports back must not keep the circuit half-open forever
+const PROBE_TIMEOUT_MS = 30 * 1000
+
+export class CircuitBreaker {
+    private state: DurableObjectState
+    private env: Env
+    private circuit: CircuitState = 'closed'
+    private outcomes: Outcome[] = []
+    private openedAt: number | null = null
+    private openUntil: number | null = null
+    private probeStartedAt: number | null = null
+    private lastStatus: number | null = null
+
+    constructor(state: DurableObjectState, env: Env) {
+        this.state = state
+        this.env = env
+
+        // An open circuit survives the DO being evicted
+        this.state.blockConcurrencyWhile(async () => {
+            const stored = await this.state.storage.get<{ openedAt: number, openUntil: number }>('open')
+            if (stored && stored.openUntil > Date.now()) {
+                this.circuit = 'open'
+                this.openedAt = stored.openedAt
+                this.openUntil = stored.openUntil
+            }
+        })
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url)
+
+        if (request.method === 'POST' && url.pathname === '/acquire') {
+            return Response.json(this.acquire(Date.now()))
+        }
+
+        if (request.method === 'POST' && url.pathname === '/report') {
+            await this.report(await request.json<BreakerReport>(), Date.now())
+            return Response.json(this.status(Date.now()))
+        }
+
+        if (request.method === 'GET' && url.pathname === '/') {
+            return Response.json(this.status(Date.now()))
+        }
+
+        return new Response('Not found', { status: 404 })
+    }
+
+    private acquire(now: number): BreakerDecision {
+        if (this.circuit === 'closed') {
+            return { allowed: true }
+        }
+
+        if (this.circuit === 'open' && this.openUntil !== null && now >= this.openUntil) {
+            this.circuit = 'half-open'
+            this.probeStartedAt = null
+        }
+
+        if (this.circuit === 'half-open') {
+            const probeInFlight = this.probeStartedAt !== null && now - this.probeStartedAt < PROBE_TIMEOUT_MS
+            if (!probeInFlight) {
+                this.probeStartedAt = now
+                return { allowed: true, probe: true }
+            }
+            return { allowed: false, retryAfter: 1 }
+        }
+
+        return { allowed: false, retryAfter: Math.max(1, Math.ceil(((this.openUntil ?? now) - now) / 1000)) }
+    }
+
+    private async report(report: BreakerReport, now: number): Promise<void> {
+        this.lastStatus = report.status ?? null
+
+        if (this.circuit === 'half-open') {
+            if (report.ok) {
+                await this.close()
+            } else {
+                await this.open(now, report.retryAfter)
+            }
+            return
+        }
+
+        const windowMs = readNumber(this.env.CIRCUIT_WINDOW_MS, DEFAULT_WINDOW_MS)
+        this.outcomes.push({ time: now, ok: report.ok, retryAfter: report.retryAfter })
+        this.outcomes = this.outcomes.filter(outcome => now - outcome.time < windowMs)
+
+        if (this.circuit !== 'closed' || report.ok) {
+            return
+        }
+
+        const failures = this.outcomes.filter(outcome => !outcome.ok).length
+        const minRequests = readNumber(this.env.CIRCUIT_MIN_REQUESTS, DEFAULT_MIN_REQUESTS)
+        const errorRate = readNumber(this.env.CIRCUIT_ERROR_RATE, DEFAULT_ERROR_RATE)
+        if (this.outcomes.length >= minRequests && failures / this.outcomes.length >= errorRate) {
+            // The latest Retry-After in the window says when the origin wants to be tried again
+            const retryAfter = [...this.outcomes].reverse().find(outcome => outcome.retryAfter !== undefined)?.retryAfter
+            await this.open(now, retryAfter)
+        }
+    }
+
+    private async open(now: number, retryAfter?: number): Promise<void> {
+        const openMs = retryAfter !== undefined
+            ? Math.min(retryAfter * 1000, readNumber(this.env.CIRCUIT_MAX_OPEN_MS, DEFAULT_MAX_OPEN_MS))
+            : readNumber(this.env.CIRCUIT_OPEN_MS, DEFAULT_OPEN_MS)
+
+        this.circuit = 'open'
+        this.openedAt = now
+        this.openUntil = now + openMs
+        this.probeStartedAt = null
+        console.log(`[CIRCUIT:OPEN] for ${Math.ceil(openMs / 1000)}s after status ${this.lastStatus ?? 'error'}`)
+        await this.state.storage.put('open', { openedAt: this.openedAt, openUntil: this.openUntil })
+    }
+
+    private async close(): Promise<void> {
+        this.circuit = 'closed'
+        this.outcomes = []
+        this.openedAt = null
+        this.openUntil = null
+        this.probeStartedAt = null
+        console.log('[CIRCUIT:CLOSED] probe succeeded')
+        await this.state.storage.delete('open')
+    }
+
+    private status(now: number): BreakerStatus {
+        const windowMs = readNumber(this.env.CIRCUIT_WINDOW_MS, DEFAULT_WINDOW_MS)
+        const recent = this.outcomes.filter(outcome => now - outcome.time < windowMs)
+
+        return {
+            state: this.circuit,
+            requests: recent.length,
+            failures: recent.filter(outcome => !outcome.ok).length,
+            openedAt: this.openedAt,
+            openUntil: this.openUntil,
+            lastStatus: this.lastStatus
+        }
+    }
+}
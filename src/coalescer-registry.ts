@@ -0,0 +1,105 @@
+/**
+ * CoalescerRegistry - Durable Object keeping track of busy coalescers
+ *
+ * Coalescer DOs are addressed by URL hash, so there is no way to list them.
+ * Each one reports here when its number of sessions changes, and sends the
+ * counters of every session it closes. The admin API reads the registry to
+ * find the coalescers worth asking for their sessions, and to show totals
+ * across all of them. Coalescers that stop reporting (evicted mid-session)
+ * are forgotten after a day.
+ *
+ * API (JSON):
+ * - POST /report  { key, sessions, stats? }  active session count and counters of closed sessions
+ * - GET  /                                   totals and active coalescers
+ */
+
+export interface CoalescerStats {
+    // Origin fetches
+    sessions: number
+    // Downloads served by those fetches
+    clients: number
+    // Origin fetches avoided by joining a session
+    savedRequests: number
+    // Bytes read from the origin
+    originBytes: number
+    // Clients detached to a direct fetch for reading too slowly
+    detachedClients: number
+}
+
+export interface ActiveCoalescer {
+    key: string
+    sessions: number
+    lastSeen: number
+}
+
+export const EMPTY_STATS: CoalescerStats = { sessions: 0, clients: 0, savedRequests: 0, originBytes: 0, detachedClients: 0 }
+
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Add the counters of b to a.
+ * @param a
+ * @param b
+ */
+export const addStats = (a: CoalescerStats, b: CoalescerStats): CoalescerStats => ({
+    sessions: a.sessions + b.sessions,
+    clients: a.clients + b.clients,
+    savedRequests: a.savedRequests + b.savedRequests,
+    originBytes: a.originBytes + b.originBytes,
+    detachedClients: a.detachedClients + b.detachedClients
+})
+
+export class CoalescerRegistry {
+    private state: DurableObjectState
+    private env: Env
+
+    constructor(state: DurableObjectState, env: Env) {
+        this.state = state
+        this.env = env
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url)
+
+        if (request.method === 'POST' && url.pathname === '/report') {
+            const { key, sessions, stats } = await request.json<{ key: string, sessions: number, stats?: CoalescerStats }>()
+            await this.report(key, sessions, stats)
+            return new Response(null, { status: 204 })
+        }
+
+        if (request.method === 'GET' && url.pathname === '/') {
+            const totals = { ...EMPTY_STATS, ...await this.state.storage.get<CoalescerStats>('totals') }
+            const active = await this.state.storage.list<ActiveCoalescer>({ prefix: 'active:' })
+
+            const now = Date.now()
+            const stale = [...active.values()].filter(entry => now - entry.lastSeen > STALE_AFTER_MS)
+            if (stale.length > 0) {
+                await this.state.storage.delete(stale.slice(0, 128).map(entry => `active:${entry.key}`))
+            }
+
+            const coalescers = [...active.values()]
+                .filter(entry => now - entry.lastSeen <= STALE_AFTER_MS)
+                .sort((a, b) => b.sessions - a.sessions)
+            return Response.json({ totals, coalescers })
+        }
+
+        return new Response('Not found', { status: 404 })
+    }
+
+    private async report(key: string, sessions: number, stats?: CoalescerStats): Promise<void> {
+        const totals = stats ? { ...EMPTY_STATS, ...await this.state.storage.get<CoalescerStats>('totals') } : null
+
+        // issued together, so the writes are committed atomically
+        const writes: Promise<unknown>[] = []
+        if (sessions > 0) {
+            writes.push(this.state.storage.put(`active:${key}`, { key, sessions, lastSeen: Date.now() } satisfies ActiveCoalescer))
+        } else {
+            writes.push(this.state.storage.delete(`active:${key}`))
+        }
+        if (totals && stats) {
+            writes.push(this.state.storage.put('totals', addStats(totals, stats)))
+        }
+
+        await Promise.all(writes)
+    }
+}
@@ -5,14 +5,88 @@
  * this DO ensures only ONE request goes to B2, and the response
  * is streamed to ALL waiting clients.
  *
- * Protocol:
- * - Control messages (headers/done/error): JSON text
- * - Data chunks: Raw binary (ArrayBuffer)
+ * Sessions are range-aware: each session is one origin fetch covering a
+ * byte interval of the file. A client joins any session that has already
+ * buffered, or is about to stream, the first byte it asked for, and is sent
+ * only its own range with its own 206 status and Content-Range. When that
+ * session ends before the client's range does, the client moves on to a
+ * session for the missing interval, so only bytes nobody is fetching yet
+ * go to the origin.
+ *
+ * Clients that join after chunks were already broadcast first receive
+ * the missed bytes from the session's replay buffer, then switch to the
+ * live broadcast. If the buffer has overflowed, late joiners get their
+ * own dedicated fetch instead.
+ *
+ * If the origin body breaks off, the rest is re-requested from the current
+ * offset (with If-Range) and broadcasting carries on, as long as the file's
+ * ETag / Last-Modified haven't changed.
+ *
+ * Every client gets its own response stream, answered with the status and
+ * headers for its range. A client with more than
+ * COALESCE_CLIENT_MAX_BUFFERED_BYTES queued but unread, or waiting while it
+ * catches up, is detached: its stream ends early and the worker fetches the
+ * rest from the origin itself, so one slow reader can't fill the DO's
+ * memory. Clients paced to a speed tier (`rate`) are expected to fall
+ * behind: they are only detached when they read slower than their rate,
+ * or when the DO as a whole (replay buffers and every client's backlog)
+ * holds more than COALESCE_MEMORY_BUDGET_BYTES, well below the isolate's
+ * 128 MB. Clients share the chunks they are sent, so the budget counts
+ * some bytes twice and errs on the safe side.
+ * A client that goes away cancels its stream, and the origin fetch is
+ * aborted once no client is left.
+ *
+ * Counters of closed sessions are kept in DO storage and sent to the
+ * CoalescerRegistry, which the admin API reads along with the live sessions.
+ * Reports are batched by an alarm, at most one every
+ * COALESCE_REGISTRY_FLUSH_MS, so the single registry DO doesn't get a
+ * request for every session of every file. A client that moves on to
+ * another session is counted once.
+ *
+ * API:
+ * - GET /stream?url=&range=&key=&rate=   the file (or range) through a shared session
+ *
+ * Admin API (JSON, reached through the worker's /admin routes):
+ * - GET    /admin/sessions       active sessions and stored counters
+ * - DELETE /admin/sessions/:id   cancel a session, its clients get a 503
  */
 
+import { addStats, CoalescerStats, EMPTY_STATS } from './coalescer-registry'
+import { checkOrigin, fetchOrigin, originBlocked } from './utils/allowlist'
+import { acquireOrigin, originOutcome, reportOrigin } from './utils/breaker'
+import { readNumber } from './utils/config'
+import { formatContentRange, formatRange, parseContentRange, parseRange, RangeSpec, resolveRange } from './utils/range'
+import { ReplayBuffer } from './utils/replay-buffer'
+
+const DEFAULT_REPLAY_MEMORY_BYTES = 16 * 1024 * 1024
+const DEFAULT_RANGE_JOIN_MAX_GAP_BYTES = 4 * 1024 * 1024
+const DEFAULT_RESUME_MAX_ATTEMPTS = 3
+const DEFAULT_RESUME_BACKOFF_MS = 500
+export const DEFAULT_CLIENT_MAX_BUFFERED_BYTES = 8 * 1024 * 1024
+const DEFAULT_MEMORY_BUDGET_BYTES = 48 * 1024 * 1024
+const DEFAULT_REGISTRY_FLUSH_MS = 10 * 1000
+
+// Live chunks held back for a client while it is being replayed the missed bytes
+interface CatchUpState {
+    queue: { offset: number, chunk: Uint8Array }[]
+    queuedBytes: number
+    after: (() => void) | null
+}
+
 interface FileSession {
+    id: string
     url: string
-    clients: Set<WebSocket>
+    rangeHeader: string  // Range header sent to the origin ('' for the whole file)
+    passthrough: boolean  // Range header we can't reason about, clients get the origin response verbatim
+    start: number | null  // File offset of the first body byte, null until known
+    end: number | null  // Inclusive file offset of the last body byte, null until known
+    total: number | null  // File size, null until known
+    position: number  // File offset of the next byte to arrive from the origin
+    etag: string | null
+    lastModified: string | null
+    abort: AbortController  // Cancels the origin fetch when the session is cancelled
+    clients: Set<SessionClient>
+    buffer: ReplayBuffer
     fetchInProgress: boolean
     fetchPromise: Promise<void> | null
     responseHeaders: Record<string, string> | null
@@ -20,25 +94,67 @@ interface FileSession {
     error: string | null
     startTime: number
     totalClients: number  // Track total clients that ever joined (including those who left)
+    detachedClients: number  // Clients moved to a direct fetch for reading too slowly
+}
+
+// Status, headers and body of a client's response
+interface ClientHead {
+    status: number
+    headers: Record<string, string>
+    body: 'stream' | string | null  // 'stream' answers with the client's stream
+}
+
+interface SessionClient {
+    url: string
+    rangeHeader: string  // Range header the client sent
+    range: RangeSpec | null  // null means the whole file
+    passthrough: boolean
+    rate: number  // Bytes per second the worker paces this client to, 0 when unpaced
+    delivered: number  // Bytes queued in the client's stream so far
+    since: number | null  // When the client's response started
+    position: number | null  // Next file offset to deliver, null until resolved (suffix ranges)
+    end: number | null  // Inclusive last file offset to deliver, null until resolved
+    etag: string | null  // Validator of the first session, later sessions must match it
+    headersSent: boolean
+    respond: (head: ClientHead) => void  // Answers the client's request
+    controller: ReadableStreamDefaultController<Uint8Array> | null  // The client's response stream
+    session: FileSession | null
+    catchUp: CatchUpState | null
+    drain: (() => void) | null  // Resumes a paused replay once the client has read enough
+    counted: boolean  // Counted in a session's totalClients already
+    closed: boolean
 }
 
 export class DownloadCoalescer {
     private state: DurableObjectState
     private env: Env
     private sessions: Map<string, FileSession> = new Map()
+    // Name the DO was addressed by, reported to the registry
+    private name: string | null = null
+    private stats: CoalescerStats = EMPTY_STATS
+    // Counters of closed sessions the registry hasn't been sent yet
+    private unreported: CoalescerStats = EMPTY_STATS
 
     constructor(state: DurableObjectState, env: Env) {
         this.state = state
         this.env = env
+        this.state.blockConcurrencyWhile(async () => {
+            const stored = await this.state.storage.get<unknown>(['stats', 'unreported', 'name'])
+            this.stats = { ...EMPTY_STATS, ...stored.get('stats') as CoalescerStats | undefined }
+            this.unreported = { ...EMPTY_STATS, ...stored.get('unreported') as CoalescerStats | undefined }
+            this.name = (stored.get('name') as string | undefined) ?? null
+        })
     }
 
     async fetch(request: Request): Promise<Response> {
         const url = new URL(request.url)
 
-        // Check for WebSocket upgrade
-        const upgradeHeader = request.headers.get('Upgrade')
-        if (upgradeHeader !== 'websocket') {
-            return new Response('Expected WebSocket upgrade', { status: 426 })
+        if (url.pathname.startsWith('/admin/')) {
+            return this.admin(request, url)
+        }
+
+        if (request.method !== 'GET' || url.pathname !== '/stream') {
+            return new Response('Not found', { status: 404 })
         }
 
         // Get the B2 URL from query parameter
@@ -47,203 +163,812 @@ export class DownloadCoalescer {
             return new Response('Missing url parameter', { status: 400 })
         }
 
+        // Anyone who can reach the DO picks the url, so it gets the same check as the routes
+        let originUrl: URL
+        try {
+            originUrl = new URL(b2Url)
+        } catch (e) {
+            return new Response('Invalid url parameter', { status: 400 })
+        }
+        const blocked = checkOrigin(originUrl, this.env)
+        if (blocked) {
+            return originBlocked(originUrl, blocked)
+        }
+
+        // The alarm that reports to the registry may run after an eviction
+        const name = url.searchParams.get('key')
+        if (name && name !== this.name) {
+            this.name = name
+            this.state.waitUntil(this.state.storage.put('name', name))
+        }
+
         // Get Range header if present (for partial content)
         const rangeHeader = url.searchParams.get('range') || ''
+        const range = parseRange(rangeHeader)
+        const rate = Number(url.searchParams.get('rate'))
+
+        let respond: (head: ClientHead) => void = () => {}
+        const head = new Promise<ClientHead>(resolve => { respond = resolve })
+
+        const sessionClient: SessionClient = {
+            url: b2Url,
+            rangeHeader,
+            range,
+            // Multi-range and malformed headers are passed to the origin as-is
+            passthrough: rangeHeader !== '' && !range,
+            rate: Number.isFinite(rate) && rate > 0 ? rate : 0,
+            delivered: 0,
+            since: null,
+            position: range ? range.start : 0,
+            end: range ? range.end : null,
+            etag: null,
+            headersSent: false,
+            respond,
+            controller: null,
+            session: null,
+            catchUp: null,
+            drain: null,
+            counted: false,
+            closed: false
+        }
+
+        // Unread bytes are counted against the slow client limit
+        const stream = new ReadableStream<Uint8Array>({
+            start: controller => { sessionClient.controller = controller },
+            pull: () => this.pulled(sessionClient),
+            cancel: () => this.dropClient(sessionClient)
+        }, { highWaterMark: this.maxBufferedBytes(), size: chunk => chunk.byteLength })
+
+        this.attach(sessionClient)
+
+        const { status, headers, body } = await head
+        return new Response(body === 'stream' ? stream : body, { status, headers })
+    }
 
-        // Create unique key for this specific request (URL + range)
-        const sessionKey = `${b2Url}|${rangeHeader}`
+    private admin(request: Request, url: URL): Response {
+        if (request.method === 'GET' && url.pathname === '/admin/sessions') {
+            const now = Date.now()
+            const sessions = [...this.sessions.values()].map(session => ({
+                id: session.id,
+                url: session.url,
+                range: session.rangeHeader || null,
+                clients: session.clients.size,
+                totalClients: session.totalClients,
+                bytesStreamed: session.position - (session.start ?? 0),
+                total: session.total,
+                detachedClients: session.detachedClients,
+                ageMs: now - session.startTime,
+                fetching: session.fetchInProgress
+            }))
+            return Response.json({ sessions, stats: this.stats })
+        }
 
-        // Extract filename for logging
-        const filename = this.extractFilename(b2Url)
+        const match = url.pathname.match(/^\/admin\/sessions\/([^/]+)$/)
+        if (request.method === 'DELETE' && match) {
+            const session = this.sessions.get(decodeURIComponent(match[1]))
+            if (!session) {
+                return new Response('Session not found', { status: 404 })
+            }
+            this.cancelSession(session)
+            return new Response(null, { status: 204 })
+        }
 
-        // Create WebSocket pair
-        const webSocketPair = new WebSocketPair()
-        const [client, server] = Object.values(webSocketPair)
+        return new Response('Not found', { status: 404 })
+    }
 
-        // Accept the WebSocket connection
-        this.state.acceptWebSocket(server)
+    private extractFilename(url: string): string {
+        try {
+            const urlObj = new URL(url)
+            const parts = urlObj.pathname.split('/')
+            return parts[parts.length - 1] || 'unknown'
+        } catch {
+            return 'unknown'
+        }
+    }
 
-        // Store session info on the WebSocket
-        ;(server as any).sessionKey = sessionKey
-        ;(server as any).b2Url = b2Url
-        ;(server as any).rangeHeader = rangeHeader
+    /**
+     * Attach a client to a session that can serve its next byte, starting
+     * a new origin fetch for the missing interval if there is none.
+     */
+    private attach(client: SessionClient): void {
+        const filename = this.extractFilename(client.url)
 
-        // Get or create session for this URL
-        let session = this.sessions.get(sessionKey)
+        // Suffix ranges can be resolved up front if any session already knows the file size
+        if (client.position === null && client.range) {
+            const total = this.knownTotal(client.url)
+            if (total !== null) {
+                const interval = resolveRange(client.range, total)
+                if (interval) {
+                    client.position = interval.start
+                    client.end = interval.end
+                }
+            }
+        }
+
+        let session = this.findSession(client)
         const isNewSession = !session
 
         if (!session) {
-            session = {
-                url: b2Url,
-                clients: new Set(),
-                fetchInProgress: false,
-                fetchPromise: null,
-                responseHeaders: null,
-                responseStatus: null,
-                error: null,
-                startTime: Date.now(),
-                totalClients: 0
-            }
-            this.sessions.set(sessionKey, session)
+            session = this.createSession(client.url, this.originRangeFor(client))
+            this.report()
         }
 
         // Add this client to the session
-        session.clients.add(server)
-        session.totalClients++
+        client.session = session
+        session.clients.add(client)
+
+        // A client moved on from a session it outlived is still one download
+        if (!client.counted) {
+            client.counted = true
+            session.totalClients++
+        }
 
         // Log metrics
+        const range = session.rangeHeader ? ` range="${session.rangeHeader}"` : ''
         if (isNewSession) {
-            console.log(`[COALESCE:NEW] file="${filename}" clients=1 - Starting B2 fetch`)
+            console.log(`[COALESCE:NEW] file="${filename}"${range} clients=1 - Starting B2 fetch`)
         } else {
-            console.log(`[COALESCE:JOIN] file="${filename}" clients=${session.totalClients} - Client joined existing session (B2 request SAVED)`)
+            console.log(`[COALESCE:JOIN] file="${filename}"${range} clients=${session.totalClients} - Client joined existing session (B2 request SAVED)`)
         }
 
-        // If fetch already completed with headers, send them immediately
+        // If fetch already returned headers, prepare the client right away
         if (session.responseHeaders && session.responseStatus) {
-            server.send(JSON.stringify({
-                type: 'headers',
-                status: session.responseStatus,
-                headers: session.responseHeaders
-            }))
+            if (!this.prepareClient(client, session)) return
+        }
+
+        // Send the bytes this client missed before it joins the live broadcast
+        if (session.buffer.chunkCount > 0 && client.position !== null && client.position < session.position) {
+            this.replayTo(client, session)
         }
 
         // If this is the first client, start fetching
         if (!session.fetchInProgress && !session.error) {
             session.fetchInProgress = true
-            session.fetchPromise = this.fetchAndBroadcast(sessionKey, b2Url, rangeHeader)
+            session.fetchPromise = this.fetchAndBroadcast(session)
         }
+    }
 
-        return new Response(null, {
-            status: 101,
-            webSocket: client
-        })
+    /**
+     * Find an in-flight session whose buffered or upcoming bytes include
+     * the client's next byte.
+     */
+    private findSession(client: SessionClient): FileSession | undefined {
+        const maxGap = readNumber(this.env.RANGE_JOIN_MAX_GAP_BYTES, DEFAULT_RANGE_JOIN_MAX_GAP_BYTES)
+
+        for (const session of this.sessions.values()) {
+            if (session.url !== client.url || session.error !== null) continue
+
+            // The replay buffer must still hold everything from the session start
+            // (an overflowed buffer is emptied, so its chunk count says nothing)
+            const replayable = !session.buffer.overflowed
+
+            // Exact-match joining for headers we can't interpret, or ranges not yet resolvable
+            if (client.passthrough || session.passthrough || client.position === null || session.start === null) {
+                if (session.rangeHeader === client.rangeHeader && !client.headersSent && replayable) {
+                    return session
+                }
+                continue
+            }
+
+            // A later session must serve the same version of the file
+            if (client.etag && session.etag && client.etag !== session.etag) continue
+
+            const position = client.position
+            if (position < session.start) continue
+            if (session.end !== null && position > session.end) continue
+
+            if (position >= session.position) {
+                if (position - session.position <= maxGap) return session
+                continue
+            }
+
+            if (replayable) return session
+        }
+
+        return undefined
     }
 
-    private extractFilename(url: string): string {
-        try {
-            const urlObj = new URL(url)
-            const parts = urlObj.pathname.split('/')
-            return parts[parts.length - 1] || 'unknown'
-        } catch {
-            return 'unknown'
+    private knownTotal(url: string): number | null {
+        for (const session of this.sessions.values()) {
+            if (session.url === url && session.total !== null) return session.total
         }
+        return null
     }
 
-    private async fetchAndBroadcast(sessionKey: string, b2Url: string, rangeHeader: string): Promise<void> {
-        const session = this.sessions.get(sessionKey)
-        if (!session) return
+    /**
+     * Range header for a new origin fetch covering what the client still needs,
+     * up to the next in-flight session for the file. The client moves on to
+     * that session when its own one ends, instead of fetching those bytes twice.
+     */
+    private originRangeFor(client: SessionClient): string {
+        if (client.passthrough || client.position === null) {
+            return client.rangeHeader
+        }
 
+        let end = client.end
+        for (const session of this.sessions.values()) {
+            if (session.url !== client.url || session.error !== null || session.passthrough || session.start === null) continue
+            if (session.start > client.position && (end === null || session.start <= end)) {
+                end = session.start - 1
+            }
+        }
+
+        if (client.position === 0 && end === null) {
+            return ''
+        }
+        return formatRange(client.position, end)
+    }
+
+    private createSession(url: string, rangeHeader: string): FileSession {
+        const range = parseRange(rangeHeader)
+        const passthrough = rangeHeader !== '' && !range
+        const start = rangeHeader === '' ? 0 : range?.start ?? null
+
+        const session: FileSession = {
+            id: crypto.randomUUID(),
+            url,
+            rangeHeader,
+            passthrough,
+            start,
+            end: range?.end ?? null,
+            total: null,
+            position: start ?? 0,
+            etag: null,
+            lastModified: null,
+            abort: new AbortController(),
+            clients: new Set(),
+            buffer: new ReplayBuffer({
+                storage: this.state.storage,
+                prefix: `replay:${crypto.randomUUID()}`,
+                memoryLimit: readNumber(this.env.REPLAY_BUFFER_MEMORY_BYTES, DEFAULT_REPLAY_MEMORY_BYTES),
+                spillLimit: readNumber(this.env.REPLAY_BUFFER_SPILL_BYTES, 0)
+            }),
+            fetchInProgress: false,
+            fetchPromise: null,
+            responseHeaders: null,
+            responseStatus: null,
+            error: null,
+            startTime: Date.now(),
+            totalClients: 0,
+            detachedClients: 0
+        }
+        this.sessions.set(session.id, session)
+        return session
+    }
+
+    private async fetchAndBroadcast(session: FileSession): Promise<void> {
         try {
             // Build headers for B2 request
             const headers: Record<string, string> = {}
-            if (rangeHeader) {
-                headers['Range'] = rangeHeader
+            if (session.rangeHeader) {
+                headers['Range'] = session.rangeHeader
+            }
+
+            // Don't hammer an origin that is rate limiting us or failing
+            const originUrl = new URL(session.url)
+            const decision = await acquireOrigin(this.env, originUrl)
+            if (!decision.allowed) {
+                session.responseStatus = 503
+                session.responseHeaders = { 'retry-after': (decision.retryAfter ?? 1).toString() }
+                this.failSession(session, 503, 'Origin temporarily unavailable')
+                return
             }
 
             // Fetch from B2
-            const response = await fetch(b2Url, { headers })
+            const response = await fetchOrigin(session.url, { headers, signal: session.abort.signal }, this.env).catch(error => {
+                if (!session.abort.signal.aborted) {
+                    this.state.waitUntil(reportOrigin(this.env, originUrl, originOutcome(null)))
+                }
+                throw error
+            })
+            this.state.waitUntil(reportOrigin(this.env, originUrl, originOutcome(response)))
 
             // Store response info
             session.responseStatus = response.status
             session.responseHeaders = Object.fromEntries(response.headers.entries())
 
-            // Broadcast headers to all clients (JSON text message)
-            this.broadcastText(sessionKey, JSON.stringify({
-                type: 'headers',
-                status: response.status,
-                headers: session.responseHeaders
-            }))
-
             // If not successful, send error and close
             if (!response.ok && response.status !== 206) {
                 const errorBody = await response.text()
                 session.error = errorBody
-                this.broadcastText(sessionKey, JSON.stringify({
-                    type: 'error',
-                    status: response.status,
-                    message: errorBody.slice(0, 500)
-                }))
-                this.closeSession(sessionKey)
+                this.failSession(session, response.status, errorBody)
                 return
             }
 
-            // Stream the response body
-            const reader = response.body?.getReader()
-            if (!reader) {
-                this.broadcastText(sessionKey, JSON.stringify({ type: 'done' }))
-                this.closeSession(sessionKey)
-                return
-            }
+            this.resolveSessionRange(session, response)
 
-            // Read and broadcast chunks as raw binary
-            while (true) {
-                const { done, value } = await reader.read()
+            // Answer each client's request with its own status and headers
+            for (const client of [...session.clients]) {
+                this.prepareClient(client, session)
+            }
 
-                if (done) {
-                    // Signal completion with JSON text
-                    this.broadcastText(sessionKey, JSON.stringify({ type: 'done' }))
+            // Stream the response body, picking it up again from the origin if it breaks off
+            let body = response.body
+            let attempts = 0
+            while (body) {
+                try {
+                    await this.broadcastBody(session, body)
                     break
-                }
+                } catch (streamError) {
+                    // Every byte arrived, only the end of the stream was lost
+                    if (session.end !== null && session.position > session.end) break
 
-                if (value && value.length > 0) {
-                    // Send raw binary data - no base64, no JSON
-                    this.broadcastBinary(sessionKey, value)
+                    const resumed = await this.resumeBody(session, attempts)
+                    attempts = resumed.attempts
+                    body = resumed.body
+                    if (!body) throw streamError
                 }
             }
 
+            this.endSession(session)
+
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error'
             session.error = errorMessage
-            this.broadcastText(sessionKey, JSON.stringify({
-                type: 'error',
-                status: 500,
-                message: errorMessage.slice(0, 500)
-            }))
+            this.failSession(session, 500, errorMessage)
         } finally {
-            this.closeSession(sessionKey)
+            this.closeSession(session)
+        }
+    }
+
+    /**
+     * Read an origin body and broadcast its chunks to every client's response stream.
+     */
+    private async broadcastBody(session: FileSession, body: ReadableStream<Uint8Array>): Promise<void> {
+        const reader = body.getReader()
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) return
+
+            if (value && value.length > 0) {
+                // Enqueued as they are on each client's stream, and kept in the replay buffer for late joiners
+                this.broadcastBinary(session, value)
+            }
         }
     }
 
-    private broadcastText(sessionKey: string, message: string): void {
-        const session = this.sessions.get(sessionKey)
-        if (!session) return
+    /**
+     * Re-request the rest of a broken origin body from the current offset.
+     * `attempts` is the number of resume requests the session already made,
+     * and the total is returned, so every request counts against
+     * COALESCE_RESUME_MAX_ATTEMPTS however often the stream broke. The body
+     * is null when the session can't be resumed: too many attempts, an
+     * unknown position, or a file that changed in the meantime.
+     */
+    private async resumeBody(
+        session: FileSession,
+        attempts: number
+    ): Promise<{ body: ReadableStream<Uint8Array> | null, attempts: number }> {
+        const maxAttempts = readNumber(this.env.COALESCE_RESUME_MAX_ATTEMPTS, DEFAULT_RESUME_MAX_ATTEMPTS)
+        if (session.passthrough || (!session.etag && !session.lastModified)) {
+            return { body: null, attempts }
+        }
+
+        const backoff = readNumber(this.env.COALESCE_RESUME_BACKOFF_MS, DEFAULT_RESUME_BACKOFF_MS)
+        const originUrl = new URL(session.url)
 
-        const toRemove: WebSocket[] = []
-        for (const client of session.clients) {
+        while (attempts < maxAttempts) {
+            attempts++
+            await new Promise(resolve => setTimeout(resolve, backoff * Math.pow(2, attempts - 1)))
+
+            if (session.clients.size === 0 || session.abort.signal.aborted) {
+                return { body: null, attempts }
+            }
+
+            if (!(await acquireOrigin(this.env, originUrl)).allowed) {
+                return { body: null, attempts }
+            }
+
+            // If-Range makes the origin send the whole (changed) file instead of a mismatched range
+            const validator = this.validatorFor(session)
+            const headers: Record<string, string> = { 'Range': formatRange(session.position, session.end) }
+            if (validator) {
+                headers['If-Range'] = validator
+            }
+
+            console.log(`[COALESCE:RESUME] ${session.url} at ${session.position}, attempt ${attempts}/${maxAttempts}`)
+
+            let response: Response
             try {
-                client.send(message)
-            } catch (e) {
-                toRemove.push(client)
+                response = await fetchOrigin(session.url, { headers, signal: session.abort.signal }, this.env)
+            } catch (error) {
+                // Count this as a failed attempt and try again from the same offset
+                if (!session.abort.signal.aborted) {
+                    this.state.waitUntil(reportOrigin(this.env, originUrl, originOutcome(null)))
+                }
+                continue
+            }
+            this.state.waitUntil(reportOrigin(this.env, originUrl, originOutcome(response)))
+
+            const contentRange = parseContentRange(response.headers.get('content-range'))
+            const etag = response.headers.get('etag')
+            const lastModified = response.headers.get('last-modified')
+
+            const unchanged = response.status === 206 &&
+                contentRange?.start === session.position &&
+                (!session.etag || !etag || etag === session.etag) &&
+                (!session.lastModified || !lastModified || lastModified === session.lastModified)
+
+            if (!unchanged || !response.body) {
+                console.error(`[COALESCE:RESUME] ${session.url} changed or can't be resumed (status ${response.status})`)
+                response.body?.cancel().catch(() => {})
+                return { body: null, attempts }
+            }
+
+            return { body: response.body, attempts }
+        }
+
+        return { body: null, attempts }
+    }
+
+    /**
+     * The validator to send as If-Range: a strong ETag, otherwise Last-Modified.
+     */
+    private validatorFor(session: FileSession): string | null {
+        return session.etag && !session.etag.startsWith('W/') ? session.etag : session.lastModified
+    }
+
+    /**
+     * Work out which bytes of the file the origin response actually covers.
+     */
+    private resolveSessionRange(session: FileSession, response: Response): void {
+        const contentLength = response.headers.get('content-length')
+        const length = contentLength !== null ? Number(contentLength) : null
+
+        session.etag = response.headers.get('etag')
+        session.lastModified = response.headers.get('last-modified')
+
+        if (response.status === 206) {
+            const contentRange = parseContentRange(response.headers.get('content-range'))
+            if (contentRange) {
+                session.start = contentRange.start
+                session.end = contentRange.end
+                session.total = contentRange.total
             }
+        } else {
+            // The origin ignored the range or none was asked for, so the body is the whole file
+            session.start = 0
+            session.total = length
+            session.end = length !== null ? length - 1 : null
         }
 
-        for (const client of toRemove) {
-            session.clients.delete(client)
+        if (session.start === null) {
+            // Unparseable 206 response, clients can only get it verbatim
+            session.start = 0
+            session.passthrough = true
         }
+        session.position = session.start
     }
 
-    private broadcastBinary(sessionKey: string, data: Uint8Array): void {
-        const session = this.sessions.get(sessionKey)
-        if (!session) return
+    /**
+     * Send a client its status and headers, or check that a session it moved
+     * on to still serves the same file. Returns false if the client was dropped.
+     */
+    private prepareClient(client: SessionClient, session: FileSession): boolean {
+        if (client.closed) return false
 
-        const toRemove: WebSocket[] = []
-        for (const client of session.clients) {
-            try {
-                // Send as ArrayBuffer (binary WebSocket message)
-                client.send(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength))
-            } catch (e) {
-                toRemove.push(client)
+        const total = session.total
+
+        if (client.headersSent) {
+            if (client.etag && session.etag && client.etag !== session.etag) {
+                this.failClient(client, 500, 'File changed during download')
+                return false
+            }
+            return true
+        }
+
+        const headers: Record<string, string> = { ...session.responseHeaders }
+        let status = session.responseStatus ?? 200
+
+        if (client.passthrough || session.passthrough || total === null) {
+            // Without a file size we can only relay the response for the exact same request
+            if (client.rangeHeader !== session.rangeHeader) {
+                this.failClient(client, 502, 'Origin did not report the file size')
+                return false
+            }
+            client.passthrough = true
+            client.position = session.start
+            client.end = null
+        } else if (!client.range) {
+            status = 200
+            headers['content-length'] = total.toString()
+            delete headers['content-range']
+            client.position = 0
+            client.end = total - 1
+        } else {
+            const interval = resolveRange(client.range, total)
+            if (!interval) {
+                delete headers['content-length']
+                this.respond(client, 416, { ...headers, 'content-range': `bytes */${total}` }, null)
+                this.finishClient(client)
+                return false
+            }
+
+            status = 206
+            headers['content-length'] = (interval.end - interval.start + 1).toString()
+            headers['content-range'] = formatContentRange(interval, total)
+            client.position = interval.start
+            client.end = interval.end
+        }
+
+        // The session must start at or before the first byte the client wants
+        if (client.position !== null && session.start !== null && client.position < session.start) {
+            this.failClient(client, 502, 'Origin returned an unexpected range')
+            return false
+        }
+
+        client.etag = session.etag
+        this.respond(client, status, headers, 'stream')
+
+        // Nothing left to send for zero-length files
+        if (client.end !== null && client.position !== null && client.position > client.end) {
+            this.finishClient(client)
+            return false
+        }
+
+        return true
+    }
+
+    private async replayTo(client: SessionClient, session: FileSession): Promise<void> {
+        const catchUp: CatchUpState = { queue: [], queuedBytes: 0, after: null }
+        client.catchUp = catchUp
+
+        // Snapshot the chunk count so live chunks arriving meanwhile are queued, not replayed twice
+        const chunkCount = session.buffer.chunkCount
+        let offset = session.start ?? 0
+
+        try {
+            for await (const chunk of session.buffer.replay(chunkCount)) {
+                // Replay no faster than the client reads, live chunks queue up meanwhile
+                if (this.unread(client) > this.maxBufferedBytes() / 2) {
+                    await new Promise<void>(resolve => { client.drain = resolve })
+                }
+                if (client.closed) return
+                this.deliver(client, offset, chunk)
+                offset += chunk.byteLength
+            }
+
+            for (const queued of catchUp.queue) {
+                this.deliver(client, queued.offset, queued.chunk)
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+            client.catchUp = null
+            this.failClient(client, 500, errorMessage)
+            return
+        } finally {
+            client.catchUp = null
+        }
+
+        if (catchUp.after) catchUp.after()
+    }
+
+    /**
+     * Send the part of a chunk at the given file offset that falls into the
+     * client's remaining range.
+     */
+    private deliver(client: SessionClient, offset: number, data: Uint8Array): void {
+        if (client.closed || client.position === null) return
+
+        const from = client.position - offset
+        if (from < 0 || from >= data.byteLength) return
+
+        const to = client.end === null
+            ? data.byteLength
+            : Math.min(data.byteLength, client.end + 1 - offset)
+        if (to <= from) return
+
+        this.enqueue(client, data.subarray(from, to))
+        client.position += to - from
+
+        if (client.end !== null && client.position > client.end) {
+            this.finishClient(client)
+        }
+    }
+
+    private broadcastBinary(session: FileSession, data: Uint8Array): void {
+        const offset = session.position
+        session.buffer.append(data)
+        session.position += data.byteLength
+
+        for (const client of [...session.clients]) {
+            if (client.catchUp) {
+                client.catchUp.queue.push({ offset, chunk: data })
+                client.catchUp.queuedBytes += data.byteLength
+            } else {
+                this.deliver(client, offset, data)
+            }
+
+            if (!client.closed && this.tooSlow(client)) {
+                this.detachSlowClient(client, session)
+            }
+        }
+    }
+
+    private maxBufferedBytes(): number {
+        return readNumber(this.env.COALESCE_CLIENT_MAX_BUFFERED_BYTES, DEFAULT_CLIENT_MAX_BUFFERED_BYTES)
+    }
+
+    /**
+     * Whether a client has fallen too far behind to keep serving it. Paced
+     * clients may build up a backlog as long as they keep to their rate and
+     * the DO stays within its memory budget.
+     */
+    private tooSlow(client: SessionClient): boolean {
+        const unread = this.unread(client)
+        const limit = this.maxBufferedBytes()
+        if (unread + (client.catchUp?.queuedBytes ?? 0) <= limit) return false
+        if (!client.rate || client.since === null) return true
+
+        const expected = client.rate * (Date.now() - client.since) / 1000
+        const read = client.delivered - unread
+        const budget = readNumber(this.env.COALESCE_MEMORY_BUDGET_BYTES, DEFAULT_MEMORY_BUDGET_BYTES)
+        return read + limit < expected || this.bufferedBytes() > budget
+    }
+
+    // Bytes the DO holds for all its sessions: replay buffers and client backlogs
+    private bufferedBytes(): number {
+        let total = 0
+        for (const session of this.sessions.values()) {
+            total += session.buffer.memorySize
+            for (const client of session.clients) {
+                total += this.unread(client) + (client.catchUp?.queuedBytes ?? 0)
+            }
+        }
+        return total
+    }
+
+    // Bytes queued in the client's stream that it hasn't read yet
+    private unread(client: SessionClient): number {
+        const desiredSize = client.controller?.desiredSize
+        return typeof desiredSize === 'number' ? this.maxBufferedBytes() - desiredSize : 0
+    }
+
+    // The client read from its stream: resume a replay paused for it
+    private pulled(client: SessionClient): void {
+        if (client.drain && this.unread(client) <= this.maxBufferedBytes() / 2) {
+            const drain = client.drain
+            client.drain = null
+            drain()
+        }
+    }
+
+    /**
+     * Hand a client that reads too slowly over to a direct origin fetch from
+     * its current offset, so its backlog doesn't have to be kept here. Its
+     * stream ends early, and the worker requests the rest once it has read
+     * what is queued.
+     */
+    private detachSlowClient(client: SessionClient, session: FileSession): void {
+        const filename = this.extractFilename(session.url)
+        const behind = this.unread(client) + (client.catchUp?.queuedBytes ?? 0)
+        session.detachedClients++
+
+        // Without a known offset the rest can't be requested on its own
+        if (client.passthrough || client.position === null) {
+            console.error(`[COALESCE:SLOW] file="${filename}" behind=${behind} - Client too slow, no offset to continue from`)
+            this.failClient(client, 503, 'Client too slow')
+            return
+        }
+
+        console.log(`[COALESCE:SLOW] file="${filename}" position=${client.position} behind=${behind} - Client detached to a direct fetch`)
+        this.closeClient(client)
+    }
+
+    /**
+     * The origin body finished: complete clients whose range is done and move
+     * the others on to a session for the bytes they still need.
+     */
+    private endSession(session: FileSession): void {
+        for (const client of [...session.clients]) {
+            const complete = () => {
+                if (client.closed) return
+                const done = client.passthrough || client.end === null ||
+                    (client.position !== null && client.position > client.end)
+                if (done) {
+                    this.finishClient(client)
+                } else {
+                    this.detach(client)
+                    this.attach(client)
+                }
+            }
+
+            if (client.catchUp) {
+                client.catchUp.after = complete
+            } else {
+                complete()
             }
         }
+    }
+
+    private failSession(session: FileSession, status: number, message: string): void {
+        for (const client of [...session.clients]) {
+            const fail = () => {
+                // Clients that never got headers see the origin's error response, like a direct fetch would
+                const originFailed = session.responseStatus !== null && (session.responseStatus < 200 || session.responseStatus >= 300)
+                if (!client.headersSent && session.responseHeaders && originFailed) {
+                    const headers = { ...session.responseHeaders }
+                    delete headers['content-length']
+                    this.respond(client, session.responseStatus!, headers, message)
+                    this.closeClient(client)
+                    return
+                }
+                this.failClient(client, status, message)
+            }
+
+            if (client.catchUp) {
+                client.catchUp.after = fail
+            } else {
+                fail()
+            }
+        }
+    }
+
+    private respond(client: SessionClient, status: number, headers: Record<string, string>, body: ClientHead['body']): void {
+        if (client.headersSent) return
+        client.headersSent = true
+        client.since = Date.now()
+        client.respond({ status, headers, body })
+    }
+
+    private enqueue(client: SessionClient, chunk: Uint8Array): void {
+        if (client.closed || !client.controller) return
+        try {
+            client.controller.enqueue(chunk)
+            client.delivered += chunk.byteLength
+        } catch (e) {
+            // The stream is gone, the client has left
+            this.dropClient(client)
+        }
+    }
+
+    private finishClient(client: SessionClient): void {
+        this.closeClient(client)
+    }
+
+    private failClient(client: SessionClient, status: number, message: string): void {
+        if (!client.headersSent) {
+            this.respond(client, status, { 'content-type': 'text/plain' }, message.slice(0, 500))
+            this.closeClient(client)
+            return
+        }
+
+        // Too late for a status, break the body off instead
+        this.detach(client)
+        if (client.closed) return
+        client.closed = true
+        client.drain?.()
+        try {
+            client.controller?.error(new Error(message.slice(0, 500)))
+        } catch (e) {
+            // Already closed
+        }
+    }
 
-        for (const client of toRemove) {
-            session.clients.delete(client)
+    /**
+     * End the client's stream. Clients still waiting for headers get a 502,
+     * their request can't be answered anymore.
+     */
+    private closeClient(client: SessionClient): void {
+        this.detach(client)
+        if (client.closed) return
+        client.closed = true
+        client.drain?.()
+        this.respond(client, 502, { 'content-type': 'text/plain' }, 'Coalescing session ended')
+        try {
+            client.controller?.close()
+        } catch (e) {
+            // Already closed
         }
     }
 
-    private closeSession(sessionKey: string): void {
-        const session = this.sessions.get(sessionKey)
-        if (!session) return
+    private detach(client: SessionClient): void {
+        client.session?.clients.delete(client)
+        client.session = null
+    }
+
+    private closeSession(session: FileSession): void {
+        if (!this.sessions.has(session.id)) return
 
         // Log final metrics
         const duration = ((Date.now() - session.startTime) / 1000).toFixed(1)
@@ -256,38 +981,109 @@ export class DownloadCoalescer {
             console.log(`[COALESCE:DONE] file="${filename}" total_clients=1 b2_requests=1 saved_requests=0 duration=${duration}s`)
         }
 
-        // Close all client connections
-        for (const client of session.clients) {
-            try {
-                client.close(1000, 'Complete')
-            } catch (e) {
-                // Ignore close errors
+        // Close any client the session didn't complete or move on, except those still catching up
+        for (const client of [...session.clients]) {
+            if (!client.catchUp && client.session === session) {
+                this.closeClient(client)
             }
         }
 
         // Clean up session
-        this.sessions.delete(sessionKey)
+        this.sessions.delete(session.id)
+        session.buffer.clear().catch(() => {})
+
+        // Keep the counters for the admin API
+        const delta: CoalescerStats = {
+            sessions: 1,
+            clients: session.totalClients,
+            savedRequests: Math.max(0, savedRequests),
+            originBytes: session.position - (session.start ?? 0),
+            detachedClients: session.detachedClients
+        }
+        this.stats = addStats(this.stats, delta)
+        this.state.waitUntil(this.state.storage.put('stats', this.stats))
+        this.report(delta)
     }
 
-    // Handle WebSocket close events
-    async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
-        const sessionKey = (ws as any).sessionKey
-        if (sessionKey) {
-            const session = this.sessions.get(sessionKey)
-            if (session) {
-                session.clients.delete(ws)
-            }
+    /**
+     * Stop a session on an operator's request: its clients get a 503 and
+     * the origin fetch is aborted.
+     */
+    private cancelSession(session: FileSession): void {
+        console.log(`[COALESCE:CANCEL] file="${this.extractFilename(session.url)}" clients=${session.clients.size} - Cancelled by admin`)
+        session.error = 'Cancelled by admin'
+        this.failSession(session, 503, session.error)
+        session.abort.abort()
+
+        // A running fetch closes the session once the abort reaches it
+        if (!session.fetchInProgress) {
+            this.closeSession(session)
         }
     }
 
-    // Handle WebSocket errors
-    async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
-        const sessionKey = (ws as any).sessionKey
-        if (sessionKey) {
-            const session = this.sessions.get(sessionKey)
-            if (session) {
-                session.clients.delete(ws)
+    /**
+     * Queue a report for the registry: how many sessions this DO has, with
+     * the counters of a session that just closed. The alarm sends it.
+     */
+    private report(stats?: CoalescerStats): void {
+        if (!this.name) return
+
+        if (stats) {
+            this.unreported = addStats(this.unreported, stats)
+        }
+        this.state.waitUntil(this.scheduleReport())
+    }
+
+    private async scheduleReport(): Promise<void> {
+        await this.state.storage.put('unreported', this.unreported)
+        if (await this.state.storage.getAlarm() === null) {
+            const flushMs = readNumber(this.env.COALESCE_REGISTRY_FLUSH_MS, DEFAULT_REGISTRY_FLUSH_MS)
+            await this.state.storage.setAlarm(Date.now() + flushMs)
+        }
+    }
+
+    /**
+     * Send the registry the current session count and the counters queued
+     * since the last report. A failed report throws, so the alarm is retried.
+     */
+    async alarm(): Promise<void> {
+        if (!this.name) return
+
+        const stats = this.unreported
+        this.unreported = EMPTY_STATS
+
+        try {
+            const registry = this.env.COALESCER_REGISTRY.get(this.env.COALESCER_REGISTRY.idFromName('registry'))
+            const response = await registry.fetch('https://coalescer-registry.internal/report', {
+                method: 'POST',
+                body: JSON.stringify({ key: this.name, sessions: this.sessions.size, stats })
+            })
+            await response.body?.cancel()
+            if (!response.ok) {
+                throw new Error(`Registry answered ${response.status}`)
             }
+        } catch (error) {
+            // Sessions closed meanwhile were added on top, so keep both
+            this.unreported = addStats(this.unreported, stats)
+            throw error
+        }
+
+        await this.state.storage.put('unreported', this.unreported)
+    }
+
+    /**
+     * The client cancelled its stream. The origin fetch stops once nobody
+     * is left to read it.
+     */
+    private dropClient(client: SessionClient): void {
+        const session = client.session
+        this.detach(client)
+        client.closed = true
+        client.drain?.()
+
+        if (session && session.clients.size === 0 && session.fetchInProgress && !session.abort.signal.aborted) {
+            console.log(`[COALESCE:CANCEL] file="${this.extractFilename(session.url)}" - Every client left, aborting the origin fetch`)
+            session.abort.abort()
         }
     }
 }
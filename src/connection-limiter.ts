@@ -0,0 +1,79 @@
+/**
+ * ConnectionLimiter - Durable Object counting one user's active downloads
+ *
+ * One instance per subject (a user ID from the token, or the client IP).
+ * Every download holds a lease while its body streams. Leases are released
+ * when the stream ends or the client goes away, and expire on their own if
+ * the worker never gets to release them, so a crashed request can't keep a
+ * slot forever. Long downloads renew their lease while data flows.
+ *
+ * API (JSON):
+ * - POST /acquire  { max, ttlMs }      take a slot if fewer than max are active
+ * - POST /renew    { leaseId, ttlMs }  keep a slot alive
+ * - POST /release  { leaseId }         give a slot back
+ * - GET  /                             active slot count
+ */
+
+export interface LeaseResult {
+    allowed: boolean
+    leaseId?: string
+    active: number
+}
+
+export class ConnectionLimiter {
+    private state: DurableObjectState
+    private env: Env
+    // Lease ID to expiry time
+    private leases: Map<string, number> = new Map()
+
+    constructor(state: DurableObjectState, env: Env) {
+        this.state = state
+        this.env = env
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url)
+        const now = Date.now()
+        this.prune(now)
+
+        if (request.method === 'POST' && url.pathname === '/acquire') {
+            const { max, ttlMs } = await request.json<{ max: number, ttlMs: number }>()
+            if (max > 0 && this.leases.size >= max) {
+                return Response.json({ allowed: false, active: this.leases.size } satisfies LeaseResult)
+            }
+
+            const leaseId = crypto.randomUUID()
+            this.leases.set(leaseId, now + ttlMs)
+            return Response.json({ allowed: true, leaseId, active: this.leases.size } satisfies LeaseResult)
+        }
+
+        if (request.method === 'POST' && url.pathname === '/renew') {
+            const { leaseId, ttlMs } = await request.json<{ leaseId: string, ttlMs: number }>()
+            const renewed = this.leases.has(leaseId)
+            if (renewed) {
+                this.leases.set(leaseId, now + ttlMs)
+            }
+            return Response.json({ renewed })
+        }
+
+        if (request.method === 'POST' && url.pathname === '/release') {
+            const { leaseId } = await request.json<{ leaseId: string }>()
+            this.leases.delete(leaseId)
+            return Response.json({ active: this.leases.size })
+        }
+
+        if (request.method === 'GET' && url.pathname === '/') {
+            return Response.json({ active: this.leases.size })
+        }
+
+        return new Response('Not found', { status: 404 })
+    }
+
+    private prune(now: number): void {
+        for (const [leaseId, expiresAt] of this.leases) {
+            if (expiresAt <= now) {
+                this.leases.delete(leaseId)
+            }
+        }
+    }
+}
@@ -1,21 +1,52 @@
 import { AutoRouter, cors, status } from 'itty-router'
+import { cancelCoalescerSession, circuitStatus, coalescerOverview, coalescerSessions } from './routes/admin'
 import { download } from './routes/download'
+import {
+	abortMultipartUpload,
+	completeMultipartUpload,
+	createMultipartUpload,
+	listMultipartParts,
+	uploadMultipartPart,
+} from './routes/multipart'
 import { upload } from './routes/upload'
+import { rateLimit, withRateLimitHeaders } from './utils/rate-limit'
 
 // Export the Durable Object class for request coalescing
 export { DownloadCoalescer } from './coalescer'
+// Export the Durable Object class for resumable multipart uploads
+export { UploadSession } from './upload-session'
+// Export the Durable Object class for per-origin circuit breakers
+export { CircuitBreaker } from './circuit-breaker'
+// Export the Durable Object class for rate limiting token buckets
+export { RateLimiter } from './rate-limiter'
+// Export the Durable Object class for concurrent download limits
+export { ConnectionLimiter } from './connection-limiter'
+// Export the Durable Object class for download accounting
+export { UsageAccumulator } from './usage-accumulator'
+// Export the Durable Object class for the coalescer admin registry
+export { CoalescerRegistry } from './coalescer-registry'
 
 const { preflight, corsify } = cors({
-	allowMethods: ['GET', 'PUT', 'OPTIONS'],
+	allowMethods: ['GET', 'HEAD', 'PUT', 'POST', 'DELETE', 'OPTIONS'],
 })
 const router = AutoRouter({
-	before: [preflight],
-	finally: [corsify]
+	before: [preflight, rateLimit],
+	finally: [withRateLimitHeaders, corsify]
 })
 
 router
 	.get('/download/:urlHASH', download)
+	.head('/download/:urlHASH', download)
 	.put('/upload/:urlHASH', upload)
+	.post('/upload/:urlHASH/multipart', createMultipartUpload)
+	.get('/upload/:urlHASH/multipart/:uploadId', listMultipartParts)
+	.put('/upload/:urlHASH/multipart/:uploadId/:partNumber', uploadMultipartPart)
+	.post('/upload/:urlHASH/multipart/:uploadId/complete', completeMultipartUpload)
+	.delete('/upload/:urlHASH/multipart/:uploadId', abortMultipartUpload)
+	.get('/admin/coalescer', coalescerOverview)
+	.get('/admin/coalescer/sessions', coalescerSessions)
+	.delete('/admin/coalescer/sessions/:sessionId', cancelCoalescerSession)
+	.get('/admin/circuit/:host', circuitStatus)
 	.all('*', () => status(404))
 
 
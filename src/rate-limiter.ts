@@ -0,0 +1,75 @@
+/**
+ * RateLimiter - Durable Object holding one token bucket
+ *
+ * One instance per bucket key (route + scope + subject, e.g. an IP). The
+ * bucket's size and refill rate come with every request, so changing the
+ * configuration takes effect without touching stored state. Buckets live
+ * in memory only: an evicted bucket comes back full, which errs on the
+ * side of letting clients through.
+ *
+ * API (JSON):
+ * - POST /take  { capacity, refillPerSecond, cost? }   take tokens if available
+ */
+
+export interface BucketConfig {
+    capacity: number
+    refillPerSecond: number
+}
+
+export interface TakeResult {
+    allowed: boolean
+    limit: number
+    remaining: number
+    // Seconds until the bucket is full again
+    reset: number
+    // Seconds until the request would be allowed, when it isn't
+    retryAfter?: number
+}
+
+export class RateLimiter {
+    private state: DurableObjectState
+    private env: Env
+    private tokens: number | null = null
+    private updatedAt = 0
+
+    constructor(state: DurableObjectState, env: Env) {
+        this.state = state
+        this.env = env
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url)
+
+        if (request.method === 'POST' && url.pathname === '/take') {
+            const { capacity, refillPerSecond, cost = 1 } = await request.json<BucketConfig & { cost?: number }>()
+            return Response.json(this.take(capacity, refillPerSecond, cost, Date.now()))
+        }
+
+        return new Response('Not found', { status: 404 })
+    }
+
+    private take(capacity: number, refillPerSecond: number, cost: number, now: number): TakeResult {
+        const elapsed = (now - this.updatedAt) / 1000
+        this.tokens = this.tokens === null
+            ? capacity
+            : Math.min(capacity, this.tokens + elapsed * refillPerSecond)
+        this.updatedAt = now
+
+        const allowed = this.tokens >= cost
+        if (allowed) {
+            this.tokens -= cost
+        }
+
+        const secondsFor = (tokens: number) => {
+            return refillPerSecond > 0 ? Math.ceil(Math.max(0, tokens) / refillPerSecond) : 0
+        }
+
+        return {
+            allowed,
+            limit: capacity,
+            remaining: Math.floor(this.tokens),
+            reset: secondsFor(capacity - this.tokens),
+            ...(!allowed && { retryAfter: Math.max(1, secondsFor(cost - this.tokens)) })
+        }
+    }
+}
@@ -0,0 +1,114 @@
+import { error, IRequest, json, status } from 'itty-router'
+import type { ActiveCoalescer, CoalescerStats } from '../coalescer-registry'
+import { checkOrigin } from '../utils/allowlist'
+import { checkAdmin } from '../utils/auth'
+import { getBreakerStatus } from '../utils/breaker'
+
+// Coalescers asked for their sessions by the overview, busiest first
+const MAX_OVERVIEW_COALESCERS = 50
+
+const coalescerStub = (env: Env, key: string) => {
+    return env.DOWNLOAD_COALESCER.get(env.DOWNLOAD_COALESCER.idFromName(key))
+}
+
+const readSessions = async (env: Env, key: string) => {
+    const response = await coalescerStub(env, key).fetch('https://coalescer.internal/admin/sessions')
+    return response.json<{ sessions: unknown[], stats: CoalescerStats }>()
+}
+
+const readKey = (request: IRequest): string | null => {
+    return typeof request.query.key === 'string' && request.query.key ? request.query.key : null
+}
+
+/**
+ * GET /admin/coalescer - counters across all coalescers, and the sessions of the busy ones
+ */
+export const coalescerOverview = async (request: IRequest, env: Env) => {
+    const denied = await checkAdmin(request, env)
+    if (denied) {
+        return denied
+    }
+
+    const registry = env.COALESCER_REGISTRY.get(env.COALESCER_REGISTRY.idFromName('registry'))
+    const { totals, coalescers } = await (await registry.fetch('https://coalescer-registry.internal/'))
+        .json<{ totals: CoalescerStats, coalescers: ActiveCoalescer[] }>()
+
+    // one unreachable DO shouldn't hide the others
+    const active = await Promise.all(coalescers.slice(0, MAX_OVERVIEW_COALESCERS).map(async coalescer => {
+        try {
+            return { ...coalescer, ...await readSessions(env, coalescer.key) }
+        } catch (e) {
+            return { ...coalescer, error: (e as Error).message }
+        }
+    }))
+
+    return json({ totals, activeCoalescers: coalescers.length, coalescers: active })
+}
+
+/**
+ * GET /admin/coalescer/sessions?key= - sessions and counters of one coalescer
+ */
+export const coalescerSessions = async (request: IRequest, env: Env) => {
+    const denied = await checkAdmin(request, env)
+    if (denied) {
+        return denied
+    }
+
+    const key = readKey(request)
+    if (!key) {
+        return error(400, 'key_required')
+    }
+
+    return json({ key, ...await readSessions(env, key) })
+}
+
+/**
+ * DELETE /admin/coalescer/sessions/:sessionId?key= - cancel a stuck session
+ */
+export const cancelCoalescerSession = async (request: IRequest, env: Env) => {
+    const denied = await checkAdmin(request, env)
+    if (denied) {
+        return denied
+    }
+
+    const key = readKey(request)
+    if (!key) {
+        return error(400, 'key_required')
+    }
+
+    const response = await coalescerStub(env, key).fetch(
+        `https://coalescer.internal/admin/sessions/${encodeURIComponent(request.sessionId)}`,
+        { method: 'DELETE' }
+    )
+    await response.body?.cancel()
+    if (response.status === 404) {
+        return error(404, 'session_not_found')
+    }
+
+    console.log(`[ADMIN:CANCEL] session ${request.sessionId} of ${key}`)
+    return status(204)
+}
+
+/**
+ * GET /admin/circuit/:host - circuit breaker state of an origin host, for monitoring
+ */
+export const circuitStatus = async (request: IRequest, env: Env) => {
+    const denied = await checkAdmin(request, env)
+    if (denied) {
+        return denied
+    }
+
+    // only hosts the worker may fetch have a breaker, anything else would create one
+    const host = decodeURIComponent(request.host).toLowerCase()
+    let url: URL
+    try {
+        url = new URL(`https://${host}/`)
+    } catch (e) {
+        return status(404)
+    }
+    if (url.host !== host || checkOrigin(url, env)) {
+        return status(404)
+    }
+
+    return json({ host, ...await getBreakerStatus(env, host) })
+}
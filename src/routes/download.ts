@@ -1,189 +1,451 @@
-import { IRequest, status, json } from 'itty-router'
-import { generateSignature, decrypt } from '../utils'
-import { coalescedFetch, isB2Url } from '../utils/coalesced-fetch'
-
-export const download = async ({ headers, cf, urlHASH, query }: IRequest, env: Env) => {
-    // // get signature from query and check if it exists
-    // const signature = query?.sig
-    // if (!signature) {
-    //     return status(400)
-    // }
-    //
-    // // make sure signature is a string
-    // if (typeof signature !== 'string') {
-    //     return status(404)
-    // }
-    //
-    // get user IP address
-    const userIP = headers.get('CF-Connecting-IP') ||
-        headers.get('x-forwarded-for')?.split(',')[0] ||
-        headers.get('x-real-ip') ||
-        headers.get('remote-addr') ||
-        '127.0.0.1'
-    //
-    // // generate a local signature and compare with the one from the query
-    // const localSignature = await generateSignature(userIP, env.SECRET)
-    // if (signature !== localSignature) {
-    //     return status(405)
-    // }
+import { error, IRequest, status, json } from 'itty-router'
+import { generateSignature } from '../utils'
+import { checkOrigin, fetchOrigin, originBlocked } from '../utils/allowlist'
+import { checkAdmin, checkSignature } from '../utils/auth'
+import { acquireOrigin, circuitOpen, originOutcome, reportOrigin } from '../utils/breaker'
+import { serveRanges } from '../utils/byteranges'
+import { acquireConnection, connectionSubject, holdConnection } from '../utils/connections'
+import { coalescedFetch } from '../utils/coalesced-fetch'
+import { applyConditionals, withoutRange } from '../utils/conditional'
+import { edgeCacheKey, getEdgeCacheConfig, matchEdgeCache, storeInEdgeCache } from '../utils/edge-cache'
+import { resolveClientIP } from '../utils/ip'
+import { decodePayload, OriginPayload, originUrls } from '../utils/payload'
+import { forwardedHeaders, interpretOriginError, resolveProvider } from '../utils/providers'
+import { getObject, headObject, resolveBucket } from '../utils/r2'
+import { parseContentRangeTotal, parseRanges } from '../utils/range'
+import { throttleResponse } from '../utils/streams'
+import { resolveTier } from '../utils/tiers'
+import { meterDownload } from '../utils/usage'
 
-    try {
-        // decrypt the URL
-        const decodedURL = await decrypt(urlHASH.replace(/-/g, '+').replace(/_/g, '/'), env.SECRET, env.IV_SECRET)
-        const url = new URL(decodedURL)
-
-        // Check if this is a B2 URL - use coalescing to prevent rate limiting
-        const useCoalescing = isB2Url(url.toString()) && query?.coalesce !== 'false'
-
-        if (useCoalescing) {
-            try {
-                // Use coalesced fetch through Durable Object
-                const coalescedHeaders = new Headers()
-                const rangeHeader = headers.get('range')
-                const ifNoneMatch = headers.get('if-none-match')
-                if (rangeHeader) coalescedHeaders.set('range', rangeHeader)
-                if (ifNoneMatch) coalescedHeaders.set('if-none-match', ifNoneMatch)
-
-                const response = await coalescedFetch({
-                    url: url.toString(),
-                    headers: coalescedHeaders,
-                    env
-                })
+/**
+ * Build the response sent to the client, adding an attachment filename if
+ * the origin didn't send one.
+ * @param response
+ * @param path
+ * @param extraHeaders
+ */
+const toDownloadResponse = (response: Response, path: string, extraHeaders: Record<string, string> = {}) => {
+    const contentDisposition = response.headers.get('content-disposition')
+    const headersObject = Object.fromEntries(response.headers.entries())
 
-                // Process the response (same as direct fetch path)
-                const contentDisposition = response.headers.get('content-disposition')
-                const headersObject = Object.fromEntries(response.headers.entries())
+    if (!contentDisposition?.includes('filename')) {
+        const filename = path.split('/').pop() || 'download'
+        const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_')
+        headersObject['content-disposition'] = `attachment; filename="${sanitizedFilename}"`
+    }
 
-                if (!contentDisposition?.includes('filename')) {
-                    const filename = url.pathname.split('/').pop() || 'download'
-                    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_')
-                    headersObject['content-disposition'] = `attachment; filename="${sanitizedFilename}"`
-                }
+    return new Response(response.body, {
+        status: response.status,
+        headers: new Headers({ ...headersObject, ...extraHeaders })
+    })
+}
 
-                // Add header to indicate coalescing was used
-                headersObject['x-coalesced'] = 'true'
+/**
+ * Turn the response to a first-byte probe into the answer to a HEAD: the
+ * whole file's status and length, without a body.
+ * @param response
+ */
+const toHeadResponse = (response: Response): Response => {
+    response.body?.cancel().catch(() => {})
+    const headers = new Headers(response.headers)
+    let status = response.status
 
-                return new Response(response.body, {
-                    status: response.status,
-                    headers: new Headers(headersObject)
-                })
+    // 206 for the first byte, or 416 for an empty file, both name the size
+    const total = parseContentRangeTotal(headers.get('content-range'))
+    if ((status === 206 || status === 416) && total !== null) {
+        status = 200
+        headers.set('content-length', total.toString())
+        headers.delete('content-range')
+    }
 
-            } catch (coalescingError) {
-                // If coalescing fails, fall back to direct fetch
-                console.error('Coalescing failed, falling back to direct fetch:', coalescingError)
-                // Continue to direct fetch below
-            }
+    return new Response(null, { status, headers })
+}
+
+/**
+ * Mirrors take over when an origin is missing the file, down or too slow.
+ * @param status
+ */
+const shouldFailOver = (status: number) => status === 404 || status >= 500
+
+/**
+ * Fetch the file from one origin URL with the given request headers: edge
+ * cache, coalesced fetch or direct fetch with retries.
+ * @param request
+ * @param env
+ * @param ctx
+ * @param url
+ * @param userIP
+ * @param headers
+ * @param coalesce
+ * @param failOver - a mirror can take over, so a timeout isn't retried
+ */
+const fetchFromOrigin = async (
+    request: IRequest,
+    env: Env,
+    ctx: ExecutionContext,
+    url: URL,
+    userIP: string,
+    headers: Headers,
+    coalesce: boolean,
+    failOver: boolean
+): Promise<Response> => {
+    const { query } = request
+
+    // Serve from the edge cache when the whole file is stored there
+    const cacheConfig = getEdgeCacheConfig(env)
+    const cacheKey = edgeCacheKey(url)
+    const cacheEnabled = cacheConfig.ttl > 0
+
+    if (cacheEnabled) {
+        const cached = await matchEdgeCache(cacheKey, headers)
+        if (cached) {
+            return toDownloadResponse(cached, url.pathname, { 'x-cache': 'HIT' })
         }
+    }
 
-        // Direct fetch path (for R2 or as fallback)
-        let response: Response | null = null
-        const maxRetries = 2
+    // The provider decides whether to coalesce (B2 rate limits per file) and how to retry
+    const provider = resolveProvider(url, env)
+    const originHeaders = forwardedHeaders(provider, headers)
+    const useCoalescing = coalesce && provider.coalesce && query?.coalesce !== 'false'
 
-        for (let attempt = 0; attempt <= maxRetries; attempt++) {
-            const controller = new AbortController()
-            const timeoutId = setTimeout(() => controller.abort(), 25000) // 25s timeout
+    if (useCoalescing) {
+        try {
+            // Use coalesced fetch through Durable Object
+            const response = await coalescedFetch({
+                url: url.toString(),
+                headers: originHeaders,
+                env,
+                ctx,
+                // Paced clients read slowly on purpose, the coalescer mustn't detach them for it
+                bytesPerSecond: request.tier?.bytesPerSecond
+            })
 
-            try {
-                response = await fetch(url.toString(), {
-                    method: 'GET',
-                    // @ts-ignore
-                    headers: {
-                        // Forward only safe headers to R2
-                        ...(headers.get('range') && { 'range': headers.get('range') }),
-                        ...(headers.get('if-none-match') && { 'if-none-match': headers.get('if-none-match') })
+            // Block mode caches (and reports) per block, so only whole files are stored here
+            const cacheStatus = response.headers.get('x-cache') || 'MISS'
+            const served = response.status === 200 && cacheEnabled && !response.headers.has('x-cache')
+                ? storeInEdgeCache(cacheKey, response, cacheConfig, ctx)
+                : response
+
+            // Add header to indicate coalescing was used
+            return toDownloadResponse(served, url.pathname, {
+                'x-coalesced': 'true',
+                ...(cacheEnabled && { 'x-cache': cacheStatus })
+            })
+
+        } catch (coalescingError) {
+            // If coalescing fails, fall back to direct fetch
+            console.error('Coalescing failed, falling back to direct fetch:', coalescingError)
+            // Continue to direct fetch below
+        }
+    }
+
+    // Direct fetch path (for providers that don't coalesce, or as fallback)
+    let response: Response | null = null
+    const { maxRetries, baseDelayMs, timeoutMs } = provider.retry
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        // Don't hammer an origin that is rate limiting us or failing
+        const decision = await acquireOrigin(env, url)
+        if (!decision.allowed) {
+            return circuitOpen(url, decision)
+        }
+
+        const controller = new AbortController()
+        const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+        try {
+            response = await fetchOrigin(url, {
+                method: 'GET',
+                // Forward only the headers the provider accepts
+                headers: originHeaders,
+                signal: controller.signal
+            }, env)
+            const outcome = originOutcome(response)
+            ctx.waitUntil(reportOrigin(env, url, outcome))
+
+            // if dev sent some data, only for admins: it reveals the signature of the client IP
+            if (query.__debug === 'true' && !await checkAdmin(request, env)) {
+                return json({
+                    response: {
+                        status: response.status,
+                        headers: Object.fromEntries(response.headers.entries()),
+                        statusText: response.statusText
                     },
-                    signal: controller.signal
+                    userIP,
+                    url,
+                    signature: {
+                        server: query.sig,
+                        local: await generateSignature(userIP, env.SECRET)
+                    }
                 })
+            }
 
-                // if dev sent some data
-                if (query.__debug === 'true') {
-                    return json({
-                        response: {
-                            status: response.status,
-                            headers: Object.fromEntries(response.headers.entries()),
-                            statusText: response.statusText
-                        },
-                        userIP,
-                        url,
-                        signature: {
-                            server: query.sig,
-                            local: await generateSignature(userIP, env.SECRET)
-                        }
-                    })
-                }
+            clearTimeout(timeoutId)
 
-                clearTimeout(timeoutId)
+            // Handle successful responses
+            if (response.ok) {
+                break // Success! Exit retry loop
+            }
 
-                // Handle successful responses
-                if (response.ok) {
-                    break // Success! Exit retry loop
-                }
+            // The client's cached copy is still current
+            if (response.status === 304) {
+                return new Response(null, {
+                    status: 304,
+                    headers: {
+                        ...Object.fromEntries(response.headers.entries()),
+                        ...(cacheEnabled && { 'x-cache': 'MISS' })
+                    }
+                })
+            }
 
-                // Handle specific error codes
-                if (response.status === 404) {
-                    return new Response('File not found', { status: 404 })
-                }
+            // The range starts past the end of the file, the origin names the size
+            if (response.status === 416) {
+                const contentRange = response.headers.get('content-range')
+                return new Response(null, {
+                    status: 416,
+                    headers: contentRange ? { 'content-range': contentRange } : {}
+                })
+            }
 
-                if (response.status === 403) {
-                    return new Response('Access denied', { status: 403 })
-                }
+            // Handle specific error codes
+            if (response.status === 404) {
+                return new Response('File not found', { status: 404 })
+            }
 
-                // For 500 errors, log details and potentially retry
-                if (response.status >= 500) {
+            if (response.status === 403) {
+                return new Response('Access denied', { status: 403 })
+            }
 
-                    // Don't retry on last attempt
-                    if (attempt === maxRetries) {
-                        return new Response(`Server error: ${response.status}`, { status: 502 })
-                    }
+            // Let the provider explain the failure, and retry throttling and server errors
+            const originError = await interpretOriginError(provider, response)
+            console.error(`Origin error from ${provider.name}: ${originError.status} ${originError.code} ${originError.message}`)
 
-                    // Continue to retry logic below
-                } else {
-                    // Other 4xx errors shouldn't be retried
-                    return new Response(`Client error: ${response.status}`, { status: response.status })
-                }
+            // The origin said when to come back, so pass that on instead of retrying now
+            if (outcome.retryAfter !== undefined) {
+                return new Response(`Server error: ${response.status}`, {
+                    status: 503,
+                    headers: { 'retry-after': outcome.retryAfter.toString() }
+                })
+            }
 
-            } catch (fetchError) {
-                clearTimeout(timeoutId)
-                const error = fetchError as Error
-                console.error(`Fetch attempt ${attempt + 1} failed:`, error.message)
+            if (originError.retryable) {
 
-                // On last attempt, return error
+                // Don't retry on last attempt
                 if (attempt === maxRetries) {
-                    if (error?.name === 'AbortError') {
-                        return new Response('Request timeout', { status: 504 })
-                    }
-                    return new Response('Network error', { status: 502 })
+                    return new Response(`Server error: ${response.status}`, { status: 502 })
                 }
 
-                // Continue to retry logic below for network errors
+                // Continue to retry logic below
+            } else {
+                // Other 4xx errors shouldn't be retried
+                return new Response(`Client error: ${response.status}`, { status: response.status })
+            }
+
+        } catch (fetchError) {
+            clearTimeout(timeoutId)
+            ctx.waitUntil(reportOrigin(env, url, originOutcome(null)))
+            const error = fetchError as Error
+            console.error(`Fetch attempt ${attempt + 1} failed:`, error.message)
+
+            // The next mirror is likely quicker than waiting out another timeout here
+            if (failOver && error?.name === 'AbortError') {
+                return new Response('Request timeout', { status: 504 })
             }
 
-            // Exponential backoff before retry (only reached if we're retrying)
-            if (attempt < maxRetries) {
-                const delay = Math.pow(2, attempt) * 1000 // 1s, 2s, 4s...
-                await new Promise(resolve => setTimeout(resolve, delay))
+            // On last attempt, return error
+            if (attempt === maxRetries) {
+                if (error?.name === 'AbortError') {
+                    return new Response('Request timeout', { status: 504 })
+                }
+                return new Response('Network error', { status: 502 })
             }
+
+            // Continue to retry logic below for network errors
         }
 
-        // Check if we have a successful response
-        if (!response || !response.ok) {
-            return new Response('Failed to fetch file after all retries', { status: 502 })
+        // Exponential backoff before retry (only reached if we're retrying)
+        if (attempt < maxRetries) {
+            const delay = Math.pow(2, attempt) * baseDelayMs // 1s, 2s, 4s... by default
+            await new Promise(resolve => setTimeout(resolve, delay))
         }
+    }
 
-        // Process the successful response
-        const contentDisposition = response.headers.get('content-disposition')
-        const headersObject = Object.fromEntries(response.headers.entries())
+    // Check if we have a successful response
+    if (!response || !response.ok) {
+        return new Response('Failed to fetch file after all retries', { status: 502 })
+    }
+
+    // Process the successful response, keeping a copy of whole files in the edge cache
+    const served = response.status === 200 && cacheEnabled
+        ? storeInEdgeCache(cacheKey, response, cacheConfig, ctx)
+        : response
+
+    return toDownloadResponse(served, url.pathname, cacheEnabled ? { 'x-cache': 'MISS' } : {})
+}
+
+/**
+ * Serve the download from one origin URL, with the client's preconditions
+ * applied to whatever body the origin, cache or coalescer produced.
+ * @param request
+ * @param env
+ * @param ctx
+ * @param url
+ * @param userIP
+ * @param failOver - a mirror can take over when this origin fails
+ */
+const serveFromOrigin = async (
+    request: IRequest,
+    env: Env,
+    ctx: ExecutionContext,
+    url: URL,
+    userIP: string,
+    failOver: boolean
+): Promise<Response> => {
+    const { headers } = request
+
+    // Probe the first byte for HEAD: presigned URLs are only valid for GET, and this needs no session
+    if (request.method === 'HEAD') {
+        const probeHeaders = withoutRange(headers)
+        probeHeaders.set('range', 'bytes=0-0')
+        const probe = await fetchFromOrigin(request, env, ctx, url, userIP, probeHeaders, false, failOver)
+        return toHeadResponse(await applyConditionals(headers, probe))
+    }
+
+    // Several ranges are fetched (or coalesced) one by one and sent as multipart/byteranges
+    const ranges = parseRanges(headers.get('range'))
+    if (ranges && ranges.length > 1) {
+        return serveRanges(headers, ranges, rangeHeaders => {
+            return fetchFromOrigin(request, env, ctx, url, userIP, rangeHeaders, true, failOver)
+        })
+    }
 
-        if (!contentDisposition?.includes('filename')) {
-            const filename = url.pathname.split('/').pop() || 'download'
-            const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_')
-            headersObject['content-disposition'] = `attachment; filename="${sanitizedFilename}"`
+    const response = await fetchFromOrigin(request, env, ctx, url, userIP, headers, true, failOver)
+    return applyConditionals(headers, response, () => {
+        return fetchFromOrigin(request, env, ctx, url, userIP, withoutRange(headers), true, failOver)
+    })
+}
+
+/**
+ * Serve the file a payload names, from its bucket binding or from the
+ * first of its URLs that can.
+ * @param request
+ * @param env
+ * @param ctx
+ * @param payload
+ * @param userIP
+ */
+const servePayload = async (
+    request: IRequest,
+    env: Env,
+    ctx: ExecutionContext,
+    payload: OriginPayload,
+    userIP: string
+): Promise<Response> => {
+    // Objects in our own buckets are read through the binding, no presigned URL involved
+    if (payload.bucket && payload.key) {
+        const bucket = resolveBucket(env, payload.bucket)
+        if (!bucket) {
+            return error(500, 'Unknown bucket binding')
+        }
+
+        const { headers } = request
+        if (request.method === 'HEAD') {
+            return toDownloadResponse(await applyConditionals(headers, await headObject(bucket, payload.key)), payload.key)
+        }
+
+        const ranges = parseRanges(headers.get('range'))
+        if (ranges && ranges.length > 1) {
+            const response = await serveRanges(headers, ranges, rangeHeaders => getObject(bucket, payload.key!, rangeHeaders))
+            return toDownloadResponse(response, payload.key)
         }
 
-        return new Response(response.body, {
-            status: response.status,
-            headers: new Headers(headersObject)
+        // R2 evaluates the other preconditions itself, but not If-Range
+        const response = await applyConditionals(headers, await getObject(bucket, payload.key, headers), () => {
+            return getObject(bucket, payload.key!, withoutRange(headers))
         })
+        return toDownloadResponse(response, payload.key)
+    }
+
+    // Try the URL, then its mirrors, until one of them can serve the file
+    const urls = originUrls(payload)
+    let response: Response | null = null
+    let mirrorIndex = 0
+
+    for (const [index, mirror] of urls.entries()) {
+        const url = new URL(mirror)
+        const blocked = checkOrigin(url, env)
+        response = blocked
+            ? originBlocked(url, blocked)
+            : await serveFromOrigin(request, env, ctx, url, userIP, index < urls.length - 1)
+        mirrorIndex = index
+
+        if (!shouldFailOver(response.status) || index === urls.length - 1) {
+            break
+        }
+
+        console.error(`[MIRROR:FAILOVER] ${url.host} answered ${response.status}, trying the next mirror`)
+        response.body?.cancel().catch(() => {})
+    }
+
+    if (!response) {
+        return new Response('Service unavailable', { status: 503 })
+    }
+
+    if (urls.length > 1) {
+        // Report which mirror served the file
+        response = new Response(response.body, response)
+        response.headers.set('x-mirror', mirrorIndex.toString())
+        response.headers.set('x-mirror-host', new URL(urls[mirrorIndex]).host)
+    }
+
+    return response
+}
+
+export const download = async (request: IRequest, env: Env, ctx: ExecutionContext) => {
+    const { headers, urlHASH } = request
+
+    // check the signature or token according to SIGNATURE_MODE
+    const signatureError = await checkSignature(request, env, 'off')
+    if (signatureError) {
+        return signatureError
+    }
+
+    // get user IP address
+    const userIP = resolveClientIP(headers, env)
+
+    try {
+        // decrypt the URL
+        const payload = await decodePayload(urlHASH, env, 'download')
+
+        // HEAD only looks at the file, it isn't paced, limited or counted as a download
+        if (request.method === 'HEAD') {
+            return await servePayload(request, env, ctx, payload, userIP)
+        }
+
+        // Free users are paced to their tier's speed, each client on its own stream
+        const tier = resolveTier(env, payload, request.tokenClaims)
+        request.tier = tier
+
+        // and can only have so many downloads open at once
+        const subject = connectionSubject(request.tokenClaims, userIP)
+        const lease = await acquireConnection(env, ctx, subject, tier.maxConnections)
+        if (lease instanceof Response) {
+            return lease
+        }
+
+        let response: Response
+        try {
+            response = await servePayload(request, env, ctx, payload, userIP)
+        } catch (serveError) {
+            lease?.release()
+            throw serveError
+        }
+
+        // Count what each client actually receives, for XFS quotas and payouts
+        const file = payload.fileId || payload.key || new URL(payload.url!).pathname
+        const metered = meterDownload(throttleResponse(response, tier.bytesPerSecond), env, ctx, file, subject)
+
+        return holdConnection(metered, lease)
 
     } catch (error) {
         return new Response('Service unavailable', { status: 503 })
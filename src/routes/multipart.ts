@@ -0,0 +1,397 @@
+import { error, IRequest, json, status } from 'itty-router'
+import type { UploadPart, UploadState } from '../upload-session'
+import { checkOrigin, originBlocked } from '../utils/allowlist'
+import { checkSignature } from '../utils/auth'
+import { getS3Credentials, S3Credentials, signS3Request } from '../utils/sigv4'
+import { decodePayload, OriginPayload } from '../utils/payload'
+import { readUploadLength, streamUploadBody, uploadFailureStatus } from '../utils/upload-stream'
+
+// S3 allows part numbers 1 to 10000
+const MAX_PART_NUMBER = 10000
+
+interface MultipartTarget {
+    objectUrl: URL
+    credentials: S3Credentials
+}
+
+/**
+ * Authorize the request the same way as a plain upload and work out which
+ * object it targets.
+ * @param request
+ * @param env
+ */
+const resolveTarget = async (request: IRequest, env: Env): Promise<MultipartTarget | Response> => {
+    // check the signature or token according to SIGNATURE_MODE
+    const signatureError = await checkSignature(request, env, 'ip')
+    if (signatureError) {
+        return signatureError
+    }
+
+    let payload: OriginPayload
+    try {
+        payload = await decodePayload(request.urlHASH, env, 'upload')
+    } catch (e) {
+        return status(503)
+    }
+
+    // bucket binding uploads go through the plain upload route
+    if (!payload.url) {
+        return error(501, 'Multipart uploads need an origin URL')
+    }
+    const objectUrl = new URL(payload.url)
+    const blocked = checkOrigin(objectUrl, env)
+    if (blocked) {
+        return originBlocked(objectUrl, blocked)
+    }
+
+    // the presigned query only authorized a single PUT, multipart calls are signed here
+    objectUrl.search = ''
+
+    const credentials = getS3Credentials(env, objectUrl)
+    if (!credentials) {
+        return error(501, 'Multipart uploads are not configured')
+    }
+
+    return { objectUrl, credentials }
+}
+
+/**
+ * Call the origin's S3 API for the target object.
+ * @param method
+ * @param target
+ * @param query
+ * @param init
+ */
+const s3Fetch = async (
+    method: string,
+    target: MultipartTarget,
+    query: Record<string, string>,
+    init: { headers?: Record<string, string>, body?: BodyInit } = {}
+) => {
+    const url = new URL(target.objectUrl)
+    for (const [key, value] of Object.entries(query)) {
+        url.searchParams.set(key, value)
+    }
+
+    const headers = await signS3Request(method, url, new Headers(init.headers), target.credentials)
+    // a signed request can't be redirected, and the target wouldn't have been checked
+    return fetch(url.toString(), { method, headers, body: init.body, redirect: 'manual' })
+}
+
+const getSession = (env: Env, uploadId: string) => {
+    return env.UPLOAD_SESSION.get(env.UPLOAD_SESSION.idFromName(uploadId))
+}
+
+/**
+ * Load the tracked upload, making sure it belongs to the object the
+ * urlHASH names so one signed link can't touch another file's upload.
+ * @param env
+ * @param target
+ * @param uploadId
+ */
+const loadUpload = async (env: Env, target: MultipartTarget, uploadId: string): Promise<UploadState | Response> => {
+    const response = await getSession(env, uploadId).fetch('https://upload-session.internal/')
+    if (!response.ok) {
+        return status(404)
+    }
+
+    const upload = await response.json<UploadState>()
+    if (upload.objectUrl !== target.objectUrl.toString()) {
+        return status(404)
+    }
+
+    return upload
+}
+
+/**
+ * Remember a stored part in the upload session. Returns whether it was recorded.
+ * @param env
+ * @param uploadId
+ * @param part
+ */
+const recordPart = async (env: Env, uploadId: string, part: Omit<UploadPart, 'uploadedAt'>): Promise<boolean> => {
+    try {
+        const response = await getSession(env, uploadId).fetch('https://upload-session.internal/parts', {
+            method: 'PUT',
+            body: JSON.stringify(part)
+        })
+        await response.body?.cancel()
+        return response.ok
+    } catch (e) {
+        return false
+    }
+}
+
+const xmlValues = (xml: string, tag: string) => {
+    return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))].map(match => match[1])
+}
+
+const unescapeXml = (value: string) => {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+}
+
+const escapeXml = (value: string) => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+// relay origin errors with their status so clients can tell what went wrong
+const originError = async (response: Response) => {
+    return new Response(await response.text(), {
+        status: response.status,
+        headers: { 'content-type': response.headers.get('content-type') || 'application/xml' }
+    })
+}
+
+/**
+ * Read every part the origin has stored for the upload (ListParts), page by page.
+ * @param target
+ * @param uploadId
+ */
+const listOriginParts = async (target: MultipartTarget, uploadId: string): Promise<Omit<UploadPart, 'uploadedAt'>[] | Response> => {
+    const parts: Omit<UploadPart, 'uploadedAt'>[] = []
+
+    let marker = '0'
+    while (true) {
+        const response = await s3Fetch('GET', target, { uploadId, 'max-parts': '1000', 'part-number-marker': marker })
+        if (!response.ok) {
+            return originError(response)
+        }
+
+        const xml = await response.text()
+        for (const partXml of xmlValues(xml, 'Part')) {
+            parts.push({
+                partNumber: Number(xmlValues(partXml, 'PartNumber')[0]),
+                etag: unescapeXml(xmlValues(partXml, 'ETag')[0] || ''),
+                size: Number(xmlValues(partXml, 'Size')[0])
+            })
+        }
+
+        if (xmlValues(xml, 'IsTruncated')[0] !== 'true') break
+        marker = xmlValues(xml, 'NextPartNumberMarker')[0]
+        if (!marker) break
+    }
+
+    return parts
+}
+
+/**
+ * POST /upload/:urlHASH/multipart - start a multipart upload
+ */
+export const createMultipartUpload = async (request: IRequest, env: Env) => {
+    const target = await resolveTarget(request, env)
+    if (target instanceof Response) {
+        return target
+    }
+
+    // the client's content type describes the final object
+    const contentType = request.headers.get('content-type')
+    const response = await s3Fetch('POST', target, { uploads: '' }, {
+        headers: contentType ? { 'content-type': contentType } : {}
+    })
+    if (!response.ok) {
+        return originError(response)
+    }
+
+    const uploadId = xmlValues(await response.text(), 'UploadId')[0]
+    if (!uploadId) {
+        return status(502)
+    }
+
+    const tracked = await getSession(env, uploadId).fetch('https://upload-session.internal/', {
+        method: 'PUT',
+        body: JSON.stringify({ objectUrl: target.objectUrl.toString(), uploadId })
+    })
+    if (!tracked.ok) {
+        return status(503)
+    }
+
+    return json({ uploadId }, { status: 201 })
+}
+
+/**
+ * PUT /upload/:urlHASH/multipart/:uploadId/:partNumber - store one part
+ */
+export const uploadMultipartPart = async (request: IRequest, env: Env) => {
+    const target = await resolveTarget(request, env)
+    if (target instanceof Response) {
+        return target
+    }
+
+    const uploadId = decodeURIComponent(request.uploadId)
+    const partNumber = Number(request.partNumber)
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+        return status(400)
+    }
+
+    const length = readUploadLength(request, env)
+    if (length instanceof Response) {
+        return length
+    }
+
+    const upload = await loadUpload(env, target, uploadId)
+    if (upload instanceof Response) {
+        return upload
+    }
+
+    const body = streamUploadBody(request.body!, length)
+
+    let response: Response
+    try {
+        response = await s3Fetch('PUT', target, { partNumber: partNumber.toString(), uploadId }, {
+            headers: { 'content-length': length.toString() },
+            body: body.body
+        })
+    } catch (uploadError) {
+        return status(uploadFailureStatus(uploadError, body))
+    }
+
+    if (!response.ok) {
+        return originError(response)
+    }
+
+    const etag = response.headers.get('etag')
+    if (!etag) {
+        return status(502)
+    }
+
+    // the part is stored, but a retry is needed for the upload session to know about it
+    if (!await recordPart(env, uploadId, { partNumber, etag, size: length })) {
+        console.error(`[MULTIPART:UNRECORDED] part ${partNumber} of ${uploadId}`)
+        return error(503, 'Part stored but not recorded, upload it again')
+    }
+
+    return json({ partNumber, etag, size: length })
+}
+
+/**
+ * GET /upload/:urlHASH/multipart/:uploadId - list the parts already stored
+ */
+export const listMultipartParts = async (request: IRequest, env: Env) => {
+    const target = await resolveTarget(request, env)
+    if (target instanceof Response) {
+        return target
+    }
+
+    const uploadId = decodeURIComponent(request.uploadId)
+    const upload = await loadUpload(env, target, uploadId)
+    if (upload instanceof Response) {
+        return upload
+    }
+
+    // the origin is the source of truth: a part can be stored even if the worker died before recording it
+    const parts = new Map<number, Omit<UploadPart, 'uploadedAt'>>(
+        Object.values(upload.parts).map(part => [part.partNumber, part])
+    )
+
+    const originParts = await listOriginParts(target, uploadId)
+    if (originParts instanceof Response) {
+        return originParts
+    }
+
+    for (const part of originParts) {
+        // catching the session up is best effort, the origin listing answers either way
+        if (!upload.parts[part.partNumber] || upload.parts[part.partNumber].etag !== part.etag) {
+            await recordPart(env, uploadId, part)
+        }
+        parts.set(part.partNumber, part)
+    }
+
+    return json({
+        uploadId,
+        parts: [...parts.values()].sort((a, b) => a.partNumber - b.partNumber)
+    })
+}
+
+/**
+ * POST /upload/:urlHASH/multipart/:uploadId/complete - assemble the stored parts
+ */
+export const completeMultipartUpload = async (request: IRequest, env: Env) => {
+    const target = await resolveTarget(request, env)
+    if (target instanceof Response) {
+        return target
+    }
+
+    const uploadId = decodeURIComponent(request.uploadId)
+    const upload = await loadUpload(env, target, uploadId)
+    if (upload instanceof Response) {
+        return upload
+    }
+
+    // complete with what the origin actually stored, and refuse if a part we recorded is gone
+    const originParts = await listOriginParts(target, uploadId)
+    if (originParts instanceof Response) {
+        return originParts
+    }
+
+    const stored = new Set(originParts.map(part => part.partNumber))
+    const missing = Object.values(upload.parts).filter(part => !stored.has(part.partNumber))
+    if (missing.length > 0) {
+        return error(409, `Parts missing at the origin: ${missing.map(part => part.partNumber).join(', ')}`)
+    }
+
+    const parts = originParts.sort((a, b) => a.partNumber - b.partNumber)
+    if (parts.length === 0) {
+        return status(400)
+    }
+
+    const body = '<CompleteMultipartUpload>' +
+        parts.map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag></Part>`).join('') +
+        '</CompleteMultipartUpload>'
+
+    const response = await s3Fetch('POST', target, { uploadId }, {
+        headers: { 'content-type': 'application/xml' },
+        body
+    })
+
+    // S3 can report a failed completion inside a 200 response
+    const xml = await response.text()
+    if (!response.ok || xml.includes('<Error>')) {
+        return new Response(xml, {
+            status: response.ok ? 502 : response.status,
+            headers: { 'content-type': 'application/xml' }
+        })
+    }
+
+    await getSession(env, uploadId).fetch('https://upload-session.internal/', { method: 'DELETE' })
+
+    return json({
+        uploadId,
+        parts: parts.length,
+        size: parts.reduce((total, part) => total + part.size, 0),
+        etag: unescapeXml(xmlValues(xml, 'ETag')[0] || '')
+    })
+}
+
+/**
+ * DELETE /upload/:urlHASH/multipart/:uploadId - abort and discard the stored parts
+ */
+export const abortMultipartUpload = async (request: IRequest, env: Env) => {
+    const target = await resolveTarget(request, env)
+    if (target instanceof Response) {
+        return target
+    }
+
+    const uploadId = decodeURIComponent(request.uploadId)
+    const upload = await loadUpload(env, target, uploadId)
+    if (upload instanceof Response) {
+        return upload
+    }
+
+    const response = await s3Fetch('DELETE', target, { uploadId })
+    if (!response.ok && response.status !== 404) {
+        return originError(response)
+    }
+
+    await getSession(env, uploadId).fetch('https://upload-session.internal/', { method: 'DELETE' })
+
+    return status(204)
+}
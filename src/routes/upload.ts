@@ -1,66 +1,118 @@
-import { IRequest, status } from 'itty-router'
-import { decrypt, generateSignature } from '../utils'
+import { error, IRequest, status } from 'itty-router'
+import { checkOrigin, originBlocked } from '../utils/allowlist'
+import { checkSignature } from '../utils/auth'
+import { CHECKSUM_HEADERS, ChecksumAlgorithm, ChecksumVerifier, createChecksumVerifier, expectedChecksums } from '../utils/checksum'
+import { decodePayload } from '../utils/payload'
+import { resolveProvider } from '../utils/providers'
+import { putObject, resolveBucket } from '../utils/r2'
+import { readUploadLength, streamUploadBody, uploadFailureStatus } from '../utils/upload-stream'
 
 export const upload = async (request: IRequest, env: Env) => {
-    const { headers, cf, urlHASH, query } = request
+    const { headers, urlHASH } = request
 
-    // get signature from query and check if it exists
-    const signature = query?.sig
-    if (!signature) {
-        return status(400)
+    // check the signature or token according to SIGNATURE_MODE
+    const signatureError = await checkSignature(request, env, 'ip')
+    if (signatureError) {
+        return signatureError
     }
 
-    // make sure signature is a string
-    if (typeof signature !== 'string') {
-        return status(404)
-    }
-
-    // get user IP address
-    const userIP = headers.get('CF-Connecting-IP') ||
-        headers.get('x-forwarded-for')?.split(',')[0] ||
-        headers.get('x-real-ip') ||
-        headers.get('remote-addr') ||
-        '127.0.0.1'
-
-    // generate local signature and compare with the one from the query
-    const localSignature = await generateSignature(userIP, env.SECRET)
-    if (signature !== localSignature) {
-        return status(405)
+    const length = readUploadLength(request, env)
+    if (length instanceof Response) {
+        return length
     }
 
     try {
         // decrypt the URL
-        const decodedURL = await decrypt(urlHASH.replace(/-/g, '+').replace(/_/g, '/'), env.SECRET, env.IV_SECRET)
-        const url = new URL(decodedURL)
+        const payload = await decodePayload(urlHASH, env, 'upload')
+        const expected = expectedChecksums(headers, payload)
 
-        // get the request body (file data)
-        const fileData = await request.arrayBuffer()
-        if (!fileData || fileData.byteLength === 0) {
-            return status(400)
-        }
+        let verifier: ChecksumVerifier
+        let send: (body: ReadableStream<Uint8Array>) => Promise<Response>
+
+        if (payload.bucket && payload.key) {
+            // objects in our own buckets are written through the binding
+            const bucket = resolveBucket(env, payload.bucket)
+            if (!bucket) {
+                return error(500, 'Unknown bucket binding')
+            }
+
+            const key = payload.key
+            verifier = createChecksumVerifier(['SHA-1'], expected)
+            send = body => putObject(bucket, key, body, headers)
+        } else {
+            const url = new URL(payload.url!)
+            const blocked = checkOrigin(url, env)
+            if (blocked) {
+                return originBlocked(url, blocked)
+            }
+
+            const provider = resolveProvider(url, env)
+
+            // prepare headers for the proxied request
+            const proxyHeaders = new Headers()
+
+            // copy all headers from the original request (except some that shouldn't be proxied)
+            const skipHeaders = ['host', 'connection', 'cf-connecting-ip', 'cf-ray', 'x-forwarded-for', 'x-real-ip']
 
-        // prepare headers for the proxied request
-        const proxyHeaders = new Headers()
+            for (const [key, value] of headers.entries()) {
+                if (!skipHeaders.includes(key.toLowerCase())) {
+                    proxyHeaders.set(key, value)
+                }
+            }
+
+            // native B2 uploads (b2_upload_file) are POSTs and must carry the SHA-1 of the body
+            const isB2Native = provider.errorFormat === 'b2' && url.pathname.includes('/b2api/')
+            const appendSha1 = isB2Native && !expected['SHA-1']
+            if (isB2Native) {
+                // without a known SHA-1 up front, B2 reads it from the last 40 bytes of the body
+                proxyHeaders.set('X-Bz-Content-Sha1', expected['SHA-1'] || 'hex_digits_at_end')
+            }
+
+            // verify the body while it streams, aborting the origin write on a mismatch
+            verifier = createChecksumVerifier(['SHA-1'], expected, appendSha1)
+
+            // pass the declared length through, the origin needs it for a streamed body
+            proxyHeaders.set('Content-Length', (length + verifier.extraBytes).toString())
 
-        // copy all headers from the original request (except some that shouldn't be proxied)
-        const skipHeaders = ['host', 'connection', 'cf-connecting-ip', 'cf-ray', 'x-forwarded-for', 'x-real-ip']
+            // make the proxied upload request
+            send = body => fetch(url.toString(), {
+                method: isB2Native ? 'POST' : 'PUT',
+                headers: proxyHeaders,
+                body,
+                // a redirect would send the body to a host nobody checked
+                redirect: 'manual',
+                // add timeout to prevent hanging requests
+                signal: AbortSignal.timeout(provider.uploadTimeoutMs)
+            })
+        }
+
+        const upload = streamUploadBody(request.body!, length, verifier)
 
-        for (const [key, value] of headers.entries()) {
-            if (!skipHeaders.includes(key.toLowerCase())) {
-                proxyHeaders.set(key, value)
+        let response: Response
+        try {
+            response = await send(upload.body)
+        } catch (uploadError) {
+            if (verifier.mismatch()) {
+                return error(400, 'checksum_mismatch')
             }
+            return status(uploadFailureStatus(uploadError, upload))
         }
 
-        // ensure content-length is set correctly
-        proxyHeaders.set('Content-Length', fileData.byteLength.toString())
+        if (verifier.mismatch()) {
+            return error(400, 'checksum_mismatch')
+        }
+
+        // report the digests we computed next to the origin's response
+        const responseHeaders = new Headers(response.headers)
+        const computed = verifier.computed()
+        for (const algorithm of Object.keys(computed) as ChecksumAlgorithm[]) {
+            responseHeaders.set(CHECKSUM_HEADERS[algorithm], computed[algorithm]!)
+        }
 
-        // make the proxied upload request
-        return await fetch(url.toString(), {
-            method: 'PUT',
-            headers: proxyHeaders,
-            body: fileData,
-            // add timeout to prevent hanging requests
-            signal: AbortSignal.timeout(300000) // 5 minutes
+        return new Response(response.body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: responseHeaders
         })
     } catch (error) {
         return status(503)
@@ -0,0 +1,88 @@
+/**
+ * UploadSession - Durable Object tracking one resumable multipart upload
+ *
+ * One instance per origin upload ID. It remembers which object the upload
+ * belongs to and the ETag of every part stored so far, so a client that
+ * lost its connection can ask which parts are still missing, and the
+ * upload can be completed without the client resending the part list.
+ *
+ * API (JSON):
+ * - PUT    /       { objectUrl, uploadId }        start tracking
+ * - GET    /                                      current state
+ * - PUT    /parts  { partNumber, etag, size }     record a stored part
+ * - DELETE /                                      forget the upload
+ *
+ * Each part is kept under its own key, so parts uploaded in parallel
+ * never overwrite each other and the number of parts isn't limited by the
+ * size of a single storage value.
+ */
+
+export interface UploadPart {
+    partNumber: number
+    etag: string
+    size: number
+    uploadedAt: number
+}
+
+export interface UploadState {
+    objectUrl: string
+    uploadId: string
+    createdAt: number
+    parts: Record<string, UploadPart>
+}
+
+// Zero-padded so the parts list in part number order
+const partKey = (partNumber: number) => `part:${partNumber.toString().padStart(5, '0')}`
+
+export class UploadSession {
+    private state: DurableObjectState
+    private env: Env
+
+    constructor(state: DurableObjectState, env: Env) {
+        this.state = state
+        this.env = env
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url)
+
+        if (request.method === 'PUT' && url.pathname === '/') {
+            const { objectUrl, uploadId } = await request.json<{ objectUrl: string, uploadId: string }>()
+            const created: Omit<UploadState, 'parts'> = { objectUrl, uploadId, createdAt: Date.now() }
+            await this.state.storage.put('upload', created)
+            return Response.json({ ...created, parts: {} } satisfies UploadState, { status: 201 })
+        }
+
+        // Read the body before the state, nothing read can go stale while it arrives
+        const part = request.method === 'PUT' && url.pathname === '/parts'
+            ? await request.json<Omit<UploadPart, 'uploadedAt'>>()
+            : null
+
+        const upload = await this.state.storage.get<Omit<UploadState, 'parts'>>('upload')
+        if (!upload) {
+            return new Response('Unknown upload', { status: 404 })
+        }
+
+        if (request.method === 'GET' && url.pathname === '/') {
+            const parts: Record<string, UploadPart> = {}
+            for (const stored of (await this.state.storage.list<UploadPart>({ prefix: 'part:' })).values()) {
+                parts[stored.partNumber] = stored
+            }
+            return Response.json({ ...upload, parts } satisfies UploadState)
+        }
+
+        if (part) {
+            const { partNumber, etag, size } = part
+            const stored: UploadPart = { partNumber, etag, size, uploadedAt: Date.now() }
+            await this.state.storage.put(partKey(partNumber), stored)
+            return Response.json(stored)
+        }
+
+        if (request.method === 'DELETE' && url.pathname === '/') {
+            await this.state.storage.deleteAll()
+            return new Response(null, { status: 204 })
+        }
+
+        return new Response('Not found', { status: 404 })
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * UsageAccumulator - Durable Object aggregating bytes served for XFS
+ *
+ * Workers report every finished download (complete, partial or aborted)
+ * here. Counts are summed per file and user in DO storage, and an alarm
+ * periodically moves them into a batch and sends it to XFS: to
+ * USAGE_QUEUE when bound, otherwise as a signed POST to USAGE_WEBHOOK_URL.
+ * Batches stay in an outbox until delivery succeeds and are retried with
+ * backoff, oldest first. Batch IDs let the receiver drop duplicates.
+ *
+ * API (JSON):
+ * - POST /record  { events: UsageEvent[] }   add to the totals
+ * - GET  /                                   pending totals and outbox size
+ */
+
+import { generateSignature } from './utils'
+import { readNumber } from './utils/config'
+
+export interface UsageEvent {
+    file: string
+    // Token subject ("user:<id>") or client IP ("ip:<address>")
+    user: string
+    bytes: number
+    // Whether the client read the whole response
+    complete: boolean
+}
+
+export interface UsageTotals {
+    file: string
+    user: string
+    bytes: number
+    downloads: number
+    completed: number
+}
+
+export interface UsageBatch {
+    id: string
+    createdAt: number
+    entries: UsageTotals[]
+}
+
+interface OutboxEntry {
+    batch: UsageBatch
+    attempts: number
+}
+
+const DEFAULT_FLUSH_INTERVAL_MS = 60 * 1000
+const DEFAULT_RETRY_BASE_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+// Keeps a stored batch well under the 128 KiB value limit
+const MAX_BATCH_ENTRIES = 500
+
+const totalsKey = (file: string, user: string) => `usage:${encodeURIComponent(file)}:${encodeURIComponent(user)}`
+
+/**
+ * Send a batch to the configured destination. Throws when it wasn't accepted.
+ * @param env
+ * @param batch
+ */
+export const deliverBatch = async (env: Env, batch: UsageBatch): Promise<void> => {
+    if (env.USAGE_QUEUE) {
+        await env.USAGE_QUEUE.send(batch)
+        return
+    }
+
+    if (!env.USAGE_WEBHOOK_URL) {
+        throw new Error('No usage destination configured')
+    }
+
+    const body = JSON.stringify(batch)
+    const response = await fetch(env.USAGE_WEBHOOK_URL, {
+        method: 'POST',
+        headers: {
+            'content-type': 'application/json',
+            'x-usage-batch': batch.id,
+            // HMAC-SHA256 of the body, base64url, like the download signatures
+            'x-usage-signature': await generateSignature(body, env.USAGE_WEBHOOK_SECRET || env.SECRET)
+        },
+        body
+    })
+    await response.body?.cancel()
+
+    if (!response.ok) {
+        throw new Error(`Usage webhook answered ${response.status}`)
+    }
+}
+
+export class UsageAccumulator {
+    private state: DurableObjectState
+    private env: Env
+
+    constructor(state: DurableObjectState, env: Env) {
+        this.state = state
+        this.env = env
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url)
+
+        if (request.method === 'POST' && url.pathname === '/record') {
+            const { events } = await request.json<{ events: UsageEvent[] }>()
+            await this.record(events)
+            return new Response(null, { status: 204 })
+        }
+
+        if (request.method === 'GET' && url.pathname === '/') {
+            const pending = await this.state.storage.list({ prefix: 'usage:' })
+            const outbox = await this.state.storage.list({ prefix: 'outbox:' })
+            return Response.json({ pending: pending.size, outbox: outbox.size })
+        }
+
+        return new Response('Not found', { status: 404 })
+    }
+
+    async alarm(): Promise<void> {
+        await this.seal()
+
+        const outbox = await this.state.storage.list<OutboxEntry>({ prefix: 'outbox:' })
+        for (const [key, entry] of outbox) {
+            try {
+                await deliverBatch(this.env, entry.batch)
+                await this.state.storage.delete(key)
+                console.log(`[USAGE:SENT] batch ${entry.batch.id} with ${entry.batch.entries.length} entries`)
+            } catch (error) {
+                // keep the order: later batches wait for this one
+                entry.attempts++
+                await this.state.storage.put(key, entry)
+                const baseMs = readNumber(this.env.USAGE_RETRY_BASE_MS, DEFAULT_RETRY_BASE_MS)
+                const delay = Math.min(MAX_RETRY_DELAY_MS, baseMs * Math.pow(2, entry.attempts - 1))
+                console.error(`[USAGE:RETRY] batch ${entry.batch.id} attempt ${entry.attempts} failed, retrying in ${delay}ms:`,
+                    (error as Error).message)
+                await this.state.storage.setAlarm(Date.now() + delay)
+                return
+            }
+        }
+
+        // more totals than fit in one batch, or new ones arrived meanwhile
+        const pending = await this.state.storage.list({ prefix: 'usage:', limit: 1 })
+        if (pending.size > 0) {
+            await this.scheduleFlush()
+        }
+    }
+
+    private async record(events: UsageEvent[]): Promise<void> {
+        const keys = events.map(event => totalsKey(event.file, event.user))
+        const stored = await this.state.storage.get<UsageTotals>([...new Set(keys)])
+
+        events.forEach((event, index) => {
+            const key = keys[index]
+            const totals = stored.get(key) || { file: event.file, user: event.user, bytes: 0, downloads: 0, completed: 0 }
+            totals.bytes += event.bytes
+            totals.downloads++
+            if (event.complete) totals.completed++
+            stored.set(key, totals)
+        })
+
+        await this.state.storage.put(Object.fromEntries(stored))
+        await this.scheduleFlush()
+    }
+
+    /**
+     * Move the current totals into an outbox batch, so new events start
+     * fresh totals while the batch is being delivered.
+     */
+    private async seal(): Promise<void> {
+        const pending = await this.state.storage.list<UsageTotals>({ prefix: 'usage:', limit: MAX_BATCH_ENTRIES })
+        if (pending.size === 0) return
+
+        const batch: UsageBatch = { id: crypto.randomUUID(), createdAt: Date.now(), entries: [...pending.values()] }
+        const key = `outbox:${batch.createdAt.toString().padStart(15, '0')}:${batch.id}`
+
+        // issued together, so the writes are committed atomically (delete takes 128 keys at a time)
+        const keys = [...pending.keys()]
+        const writes: Promise<unknown>[] = [this.state.storage.put(key, { batch, attempts: 0 } satisfies OutboxEntry)]
+        for (let i = 0; i < keys.length; i += 128) {
+            writes.push(this.state.storage.delete(keys.slice(i, i + 128)))
+        }
+        await Promise.all(writes)
+    }
+
+    private async scheduleFlush(): Promise<void> {
+        if (await this.state.storage.getAlarm() !== null) return
+        const intervalMs = readNumber(this.env.USAGE_FLUSH_INTERVAL_MS, DEFAULT_FLUSH_INTERVAL_MS)
+        await this.state.storage.setAlarm(Date.now() + intervalMs)
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Origin Allowlist - Keeps the worker from fetching arbitrary URLs
+ *
+ * A decrypted URL (or a url handed to the coalescer DO) is only fetched
+ * when its scheme, host and port are allowed:
+ * - ORIGIN_ALLOWLIST: comma-separated host patterns ("*.example.com" for
+ *   subdomains). Required: without it no origin is fetched, since the
+ *   providers' wildcard hosts would let in anyone's bucket. wrangler.json
+ *   allows the B2 download, S3 and upload hosts; narrow it to your own
+ *   buckets' hosts where you can.
+ * - ORIGIN_ALLOWED_SCHEMES: defaults to "https".
+ * - ORIGIN_ALLOWED_PORTS: extra ports on top of the scheme's default one.
+ *
+ * Origin fetches don't follow redirects on their own: a redirect is only
+ * followed when its Location passes the same check.
+ */
+
+import { error } from 'itty-router'
+import { hostMatches } from './providers'
+
+const MAX_REDIRECTS = 5
+
+const readList = (value: string | undefined) => {
+    return (value || '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean)
+}
+
+
+/**
+ * Check a URL against the allowlist. Returns why it is blocked, or null
+ * when it may be fetched.
+ * @param url
+ * @param env
+ */
+export const checkOrigin = (url: URL, env: Env): string | null => {
+    const schemes = readList(env.ORIGIN_ALLOWED_SCHEMES || 'https').map(scheme => scheme.replace(/:?$/, ':'))
+    if (!schemes.includes(url.protocol)) {
+        return `scheme ${url.protocol} not allowed`
+    }
+
+    // URL drops the scheme's default port, so only explicit other ports show up here
+    if (url.port && !readList(env.ORIGIN_ALLOWED_PORTS).includes(url.port)) {
+        return `port ${url.port} not allowed`
+    }
+
+    const hosts = readList(env.ORIGIN_ALLOWLIST)
+    if (hosts.length === 0) {
+        return 'ORIGIN_ALLOWLIST is not configured'
+    }
+
+    if (!hosts.some(pattern => hostMatches(url.hostname, pattern))) {
+        return `host ${url.hostname} not allowed`
+    }
+
+    return null
+}
+
+/**
+ * Log a blocked origin and build the response for it.
+ * @param url
+ * @param reason
+ */
+export const originBlocked = (url: URL, reason: string): Response => {
+    console.error(`[ORIGIN:BLOCKED] ${url.origin} - ${reason}`)
+    return error(403, 'origin_not_allowed')
+}
+
+/**
+ * Fetch an allowed origin URL, following redirects only to allowed URLs.
+ * Requests with a body can't be repeated, so their redirects are returned
+ * as they are.
+ * @param url
+ * @param init
+ * @param env
+ */
+export const fetchOrigin = async (url: string | URL, init: RequestInit, env: Env): Promise<Response> => {
+    let target = new URL(url)
+
+    for (let redirects = 0; ; redirects++) {
+        const response = await fetch(target.toString(), { ...init, redirect: 'manual' })
+        const location = response.headers.get('location')
+        const isRedirect = [301, 302, 303, 307, 308].includes(response.status)
+        if (!isRedirect || !location || init.body) {
+            return response
+        }
+
+        await response.body?.cancel()
+        if (redirects >= MAX_REDIRECTS) {
+            return new Response('Too many origin redirects', { status: 502 })
+        }
+
+        const next = new URL(location, target)
+        const blocked = checkOrigin(next, env)
+        if (blocked) {
+            return originBlocked(next, blocked)
+        }
+        target = next
+    }
+}
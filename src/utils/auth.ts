@@ -0,0 +1,132 @@
+/**
+ * Signature enforcement shared by the download and upload routes
+ *
+ * SIGNATURE_MODE picks how requests are checked:
+ * - off:    no signature needed
+ * - ip:     `sig` must be the signature of the exact client IP, or `token`
+ *           must be bound to that IP
+ * - prefix: `sig` must be the signature of the client's IPv4 /24 or IPv6 /64
+ *           (e.g. "203.0.113.0/24"), or `token` must be bound to a prefix
+ *           containing the client IP. Survives mobile carrier NAT and IPv6
+ *           privacy addresses
+ * - token:  `token` must be valid for the file, the IP isn't checked
+ *
+ * Admin routes use their own secret, ADMIN_SECRET, sent as a bearer token.
+ */
+
+import { error, IRequest, status } from 'itty-router'
+import { generateSignature } from './index'
+import { ipPrefix, resolveClientIP } from './ip'
+import { tokenErrorStatus, verifyToken } from './token'
+
+export type SignatureMode = 'off' | 'ip' | 'prefix' | 'token'
+
+const SIGNATURE_MODES: SignatureMode[] = ['off', 'ip', 'prefix', 'token']
+
+/**
+ * Compare two secrets in constant time. Digests are compared, so the time
+ * taken doesn't depend on the length of either.
+ * @param given
+ * @param expected
+ */
+const secretsMatch = async (given: string, expected: string): Promise<boolean> => {
+    const encoder = new TextEncoder()
+    const [a, b] = await Promise.all([
+        crypto.subtle.digest('SHA-256', encoder.encode(given)),
+        crypto.subtle.digest('SHA-256', encoder.encode(expected))
+    ])
+    return crypto.subtle.timingSafeEqual(a, b)
+}
+
+/**
+ * Read the configured mode, using the route's historical default when
+ * SIGNATURE_MODE is missing or unknown.
+ * @param env
+ * @param fallback
+ */
+export const getSignatureMode = (env: Env, fallback: SignatureMode): SignatureMode => {
+    const mode = env.SIGNATURE_MODE?.trim().toLowerCase() as SignatureMode | undefined
+    return mode && SIGNATURE_MODES.includes(mode) ? mode : fallback
+}
+
+/**
+ * Check the request's `sig` or `token` query parameter against the mode.
+ * Returns an error response, or null when the request may proceed. The
+ * claims of a valid token are kept on `request.tokenClaims`.
+ * @param request
+ * @param env
+ * @param fallback
+ */
+export async function checkSignature(request: IRequest, env: Env, fallback: SignatureMode): Promise<Response | null> {
+    const mode = getSignatureMode(env, fallback)
+    if (mode === 'off') {
+        return null
+    }
+
+    const { query, urlHASH } = request
+    const userIP = resolveClientIP(request.headers, env)
+
+    // prefer the expiring, path-bound token when the client sends one
+    if (typeof query?.token === 'string') {
+        const result = await verifyToken(query.token, { urlHASH, ip: mode === 'token' ? undefined : userIP }, env)
+        if (!result.ok) {
+            return error(tokenErrorStatus[result.code], result.code)
+        }
+
+        // in ip mode the token must name the exact client IP, not a prefix
+        if (mode === 'ip' && result.claims.ip?.includes('/')) {
+            return error(tokenErrorStatus.ip_mismatch, 'ip_mismatch')
+        }
+
+        request.tokenClaims = result.claims
+        return null
+    }
+
+    if (mode === 'token') {
+        return status(400)
+    }
+
+    // get signature from query and check if it exists
+    const signature = query?.sig
+    if (!signature) {
+        return status(400)
+    }
+
+    // make sure signature is a string
+    if (typeof signature !== 'string') {
+        return status(404)
+    }
+
+    // generate local signature and compare with the one from the query
+    const signed = mode === 'prefix' ? ipPrefix(userIP) || userIP : userIP
+    const localSignature = await generateSignature(signed, env.SECRET)
+    if (!await secretsMatch(signature, localSignature)) {
+        return status(405)
+    }
+
+    return null
+}
+
+/**
+ * Check the admin bearer token. Returns an error response, or null when the
+ * request may proceed. Without ADMIN_SECRET the admin routes don't exist.
+ * @param request
+ * @param env
+ */
+export async function checkAdmin(request: IRequest, env: Env): Promise<Response | null> {
+    if (!env.ADMIN_SECRET) {
+        return status(404)
+    }
+
+    const [scheme, token] = (request.headers.get('authorization') || '').split(' ')
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+        return error(401, 'admin_token_required')
+    }
+
+    if (!await secretsMatch(token, env.ADMIN_SECRET)) {
+        console.error(`[ADMIN:DENIED] ${request.method} ${new URL(request.url).pathname}`)
+        return error(403, 'admin_token_invalid')
+    }
+
+    return null
+}
@@ -0,0 +1,101 @@
+/**
+ * Breaker - Talks to the per-origin CircuitBreaker DO
+ *
+ * Breaker trouble never blocks a download: if the DO can't be reached the
+ * request goes to the origin as if the circuit were closed.
+ */
+
+import type { BreakerDecision, BreakerReport, BreakerStatus } from '../circuit-breaker'
+
+const breakerFor = (env: Env, host: string) => {
+    return env.CIRCUIT_BREAKER.get(env.CIRCUIT_BREAKER.idFromName(host.toLowerCase()))
+}
+
+/**
+ * Read a Retry-After header (seconds or HTTP date) as seconds from now.
+ * @param value
+ * @param now
+ */
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | undefined => {
+    if (!value) return undefined
+
+    if (/^\s*\d+\s*$/.test(value)) {
+        return Number(value)
+    }
+
+    const date = Date.parse(value)
+    return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000))
+}
+
+/**
+ * Describe an origin response (or a failed fetch, as null) for the breaker.
+ * @param response
+ */
+export const originOutcome = (response: Response | null): BreakerReport => {
+    if (!response) {
+        return { ok: false }
+    }
+
+    // B2 answers 429 / 503 when it wants us to slow down
+    if (response.status === 429 || response.status === 503) {
+        return { ok: false, status: response.status, retryAfter: parseRetryAfter(response.headers.get('retry-after')) }
+    }
+
+    return { ok: response.status < 500, status: response.status }
+}
+
+/**
+ * Ask whether a request may go to the origin.
+ * @param env
+ * @param url
+ */
+export const acquireOrigin = async (env: Env, url: URL): Promise<BreakerDecision> => {
+    try {
+        const response = await breakerFor(env, url.host).fetch('https://circuit-breaker.internal/acquire', { method: 'POST' })
+        return await response.json<BreakerDecision>()
+    } catch (e) {
+        return { allowed: true }
+    }
+}
+
+/**
+ * Tell the breaker how a request to the origin went.
+ * @param env
+ * @param url
+ * @param report
+ */
+export const reportOrigin = async (env: Env, url: URL, report: BreakerReport): Promise<void> => {
+    try {
+        const response = await breakerFor(env, url.host).fetch('https://circuit-breaker.internal/report', {
+            method: 'POST',
+            body: JSON.stringify(report)
+        })
+        await response.body?.cancel()
+    } catch (e) {
+        // the next report catches the breaker up
+    }
+}
+
+/**
+ * Current breaker state for an origin host.
+ * @param env
+ * @param host
+ */
+export const getBreakerStatus = async (env: Env, host: string): Promise<BreakerStatus> => {
+    const response = await breakerFor(env, host).fetch('https://circuit-breaker.internal/')
+    return response.json<BreakerStatus>()
+}
+
+/**
+ * The response for a request short-circuited by an open breaker.
+ * @param url
+ * @param decision
+ */
+export const circuitOpen = (url: URL, decision: BreakerDecision): Response => {
+    const retryAfter = decision.retryAfter ?? 1
+    console.error(`[CIRCUIT:REJECT] ${url.host} is backing off for ${retryAfter}s`)
+    return new Response('Origin temporarily unavailable', {
+        status: 503,
+        headers: { 'retry-after': retryAfter.toString() }
+    })
+}
@@ -0,0 +1,176 @@
+/**
+ * Byte Ranges - Answers multi-range requests with multipart/byteranges
+ *
+ * Origins answer `Range: bytes=0-99,5000-5999` inconsistently (the whole
+ * file, only the first range, or an error), so the ranges are fetched one
+ * by one instead. The first range tells the file size and version, then
+ * the ranges are resolved, merged where they overlap or touch, and each
+ * part is requested with If-Range so every part comes from the same
+ * version of the file. When only one range is left a plain 206 is sent.
+ */
+
+import { applyConditionals, withoutRange } from './conditional'
+import {
+    ByteInterval,
+    formatContentRange,
+    formatRange,
+    formatRangeSpec,
+    parseContentRange,
+    parseContentRangeTotal,
+    RangeSpec,
+    resolveRanges
+} from './range'
+
+// Past this many parts the whole file is cheaper to send than the parts
+const MAX_PARTS = 50
+
+// Fetches the file with the given request headers, Range included
+export type RangeFetcher = (headers: Headers) => Promise<Response>
+
+const withRange = (headers: Headers, range: string): Headers => {
+    const ranged = new Headers(headers)
+    ranged.set('range', range)
+    return ranged
+}
+
+/**
+ * Serve a request for several ranges: a multipart/byteranges 206, a plain
+ * 206 when the ranges merge into one, a 416 when none can be satisfied,
+ * or whatever the origin answered when it can't serve ranges.
+ * @param headers
+ * @param specs
+ * @param fetchWith
+ */
+export const serveRanges = async (headers: Headers, specs: RangeSpec[], fetchWith: RangeFetcher): Promise<Response> => {
+    const first = await applyConditionals(
+        headers,
+        await fetchWith(withRange(headers, formatRangeSpec(specs[0]))),
+        () => fetchWith(withoutRange(headers))
+    )
+
+    // A full file, a 304 or an error answers the request on its own
+    if (first.status !== 206 && first.status !== 416) {
+        return first
+    }
+
+    const total = parseContentRangeTotal(first.headers.get('content-range'))
+    const intervals = total === null ? [] : resolveRanges(specs, total)
+
+    const served = first.status === 206 ? parseContentRange(first.headers.get('content-range')) : null
+    const reusable = served !== null && intervals.length > 0 &&
+        served.start === intervals[0].start && served.end === intervals[0].end
+    if (!reusable) {
+        first.body?.cancel().catch(() => {})
+    }
+
+    if (total === null || intervals.length > MAX_PARTS) {
+        return fetchWith(withoutRange(headers))
+    }
+
+    if (intervals.length === 0) {
+        return new Response(null, {
+            status: 416,
+            headers: { 'content-range': `bytes */${total}` }
+        })
+    }
+
+    if (intervals.length === 1) {
+        return reusable ? first : fetchWith(withRange(headers, formatRange(intervals[0].start, intervals[0].end)))
+    }
+
+    return multipartResponse(first, reusable, intervals, total, fetchWith)
+}
+
+/**
+ * Stream the parts one after another, each behind its own boundary and
+ * Content-Range.
+ * @param first
+ * @param reusable
+ * @param intervals
+ * @param total
+ * @param fetchWith
+ */
+const multipartResponse = (
+    first: Response,
+    reusable: boolean,
+    intervals: ByteInterval[],
+    total: number,
+    fetchWith: RangeFetcher
+): Response => {
+    const boundary = crypto.randomUUID().replace(/-/g, '')
+    const contentType = first.headers.get('content-type') || 'application/octet-stream'
+    const encoder = new TextEncoder()
+
+    const partHeaders = intervals.map(interval => encoder.encode(
+        `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: ${formatContentRange(interval, total)}\r\n\r\n`
+    ))
+    const closing = encoder.encode(`\r\n--${boundary}--\r\n`)
+    const length = intervals.reduce((sum, interval, index) => {
+        return sum + partHeaders[index].byteLength + interval.end - interval.start + 1
+    }, closing.byteLength)
+
+    // Every part must come from the version the first range came from
+    const etag = first.headers.get('etag')
+    const validator = etag && !etag.startsWith('W/') ? etag : first.headers.get('last-modified')
+
+    const fetchPart = async (interval: ByteInterval): Promise<Response> => {
+        const headers = new Headers({ range: formatRange(interval.start, interval.end) })
+        if (validator) {
+            headers.set('if-range', validator)
+        }
+
+        const response = await fetchWith(headers)
+        const contentRange = parseContentRange(response.headers.get('content-range'))
+        if (response.status !== 206 || contentRange?.start !== interval.start || contentRange.end !== interval.end ||
+            (etag && response.headers.get('etag') !== etag)) {
+            response.body?.cancel().catch(() => {})
+            throw new Error('File changed during download')
+        }
+        return response
+    }
+
+    const chunks = (async function* () {
+        for (const [index, interval] of intervals.entries()) {
+            yield partHeaders[index]
+
+            const response = index === 0 && reusable ? first : await fetchPart(interval)
+            const reader = response.body?.getReader()
+            if (!reader) continue
+            try {
+                while (true) {
+                    const { done, value } = await reader.read()
+                    if (done) break
+                    yield value
+                }
+            } finally {
+                reader.cancel().catch(() => {})
+            }
+        }
+        yield closing
+    })()
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await chunks.next()
+                if (done) {
+                    controller.close()
+                } else {
+                    controller.enqueue(value)
+                }
+            } catch (error) {
+                controller.error(error)
+            }
+        },
+        async cancel() {
+            await chunks.return(undefined)
+        }
+    })
+
+    const headers = new Headers(first.headers)
+    headers.delete('content-range')
+    headers.set('content-type', `multipart/byteranges; boundary=${boundary}`)
+    headers.set('content-length', length.toString())
+
+    return new Response(body, { status: 206, headers })
+}
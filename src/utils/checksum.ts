@@ -0,0 +1,137 @@
+/**
+ * Checksum - Verifies upload bodies while they stream to the origin
+ *
+ * Digests are computed chunk by chunk with DigestStream. The last chunk is
+ * held back until every digest is known, so on a mismatch the origin never
+ * receives the complete body and discards the write.
+ */
+
+import { OriginPayload } from './payload'
+
+export type ChecksumAlgorithm = 'MD5' | 'SHA-1' | 'SHA-256'
+
+export type Checksums = Partial<Record<ChecksumAlgorithm, string>>
+
+// Response header each computed digest is reported in
+export const CHECKSUM_HEADERS: Record<ChecksumAlgorithm, string> = {
+    'MD5': 'x-checksum-md5',
+    'SHA-1': 'x-checksum-sha1',
+    'SHA-256': 'x-checksum-sha256'
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) => {
+    return [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const base64ToHex = (value: string) => {
+    try {
+        return toHex(Uint8Array.from(atob(value.trim()), c => c.charCodeAt(0)))
+    } catch (e) {
+        return undefined
+    }
+}
+
+/**
+ * Collect the checksums the upload is expected to have, from the client's
+ * Content-MD5 / X-Bz-Content-Sha1 headers and the encrypted payload. The
+ * payload wins, since the client can't tamper with it.
+ * @param headers
+ * @param payload
+ */
+export const expectedChecksums = (headers: Headers, payload: OriginPayload): Checksums => {
+    const expected: Checksums = {}
+
+    const contentMD5 = headers.get('content-md5')
+    if (contentMD5) {
+        expected['MD5'] = base64ToHex(contentMD5)
+    }
+
+    // B2 also accepts placeholders like "do_not_verify" and "hex_digits_at_end"
+    const bzSha1 = headers.get('x-bz-content-sha1')
+    if (bzSha1 && /^[0-9a-f]{40}$/i.test(bzSha1)) {
+        expected['SHA-1'] = bzSha1
+    }
+
+    if (payload.md5) expected['MD5'] = payload.md5
+    if (payload.sha1) expected['SHA-1'] = payload.sha1
+    if (payload.sha256) expected['SHA-256'] = payload.sha256
+
+    for (const algorithm of Object.keys(expected) as ChecksumAlgorithm[]) {
+        const value = expected[algorithm]
+        if (value) {
+            expected[algorithm] = value.toLowerCase()
+        } else {
+            delete expected[algorithm]
+        }
+    }
+
+    return expected
+}
+
+export interface ChecksumVerifier {
+    transform: TransformStream<Uint8Array, Uint8Array>
+    // Bytes added to the body (the SHA-1 hex for B2's hex_digits_at_end)
+    extraBytes: number
+    // Digests of the body once it has fully streamed
+    computed: () => Checksums
+    mismatch: () => ChecksumAlgorithm | null
+}
+
+/**
+ * Build a transform that computes the given digests and checks them
+ * against the expected values before releasing the final chunk.
+ * @param algorithms
+ * @param expected
+ * @param appendSha1
+ */
+export const createChecksumVerifier = (
+    algorithms: ChecksumAlgorithm[],
+    expected: Checksums,
+    appendSha1: boolean = false
+): ChecksumVerifier => {
+    const wanted = new Set<ChecksumAlgorithm>([...algorithms, ...Object.keys(expected) as ChecksumAlgorithm[]])
+    if (appendSha1) wanted.add('SHA-1')
+
+    const digests = [...wanted].map(algorithm => {
+        const stream = new crypto.DigestStream(algorithm)
+        return { algorithm, stream, writer: stream.getWriter() }
+    })
+
+    const computed: Checksums = {}
+    let mismatch: ChecksumAlgorithm | null = null
+    let held: Uint8Array | null = null
+
+    const transform = new TransformStream<Uint8Array, Uint8Array>({
+        async transform(chunk, controller) {
+            await Promise.all(digests.map(({ writer }) => writer.write(chunk)))
+            if (held) controller.enqueue(held)
+            held = chunk
+        },
+        async flush(controller) {
+            await Promise.all(digests.map(({ writer }) => writer.close()))
+            for (const { algorithm, stream } of digests) {
+                computed[algorithm] = toHex(await stream.digest)
+            }
+
+            for (const algorithm of Object.keys(expected) as ChecksumAlgorithm[]) {
+                if (computed[algorithm] !== expected[algorithm]) {
+                    mismatch = algorithm
+                    controller.error(new Error(`${algorithm} checksum mismatch`))
+                    return
+                }
+            }
+
+            if (held) controller.enqueue(held)
+            if (appendSha1) {
+                controller.enqueue(new TextEncoder().encode(computed['SHA-1']))
+            }
+        }
+    })
+
+    return {
+        transform,
+        extraBytes: appendSha1 ? 40 : 0,
+        computed: () => computed,
+        mismatch: () => mismatch
+    }
+}
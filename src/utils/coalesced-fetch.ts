@@ -1,29 +1,48 @@
 /**
  * Coalesced Fetch - Uses Durable Object to deduplicate concurrent requests
  *
- * Protocol:
- * - Control messages (headers/done/error): JSON text
- * - Data chunks: Raw binary (ArrayBuffer)
+ * With COALESCE_BLOCK_SIZE set, every request is split into fixed-size,
+ * aligned blocks. Each block is coalesced on its own, in its own DO shard,
+ * and the blocks are stitched back into one response for the client.
+ * Blocks are no larger than COALESCE_CLIENT_MAX_BUFFERED_BYTES, so a block
+ * prefetched while the previous one streams doesn't get detached as slow.
+ *
+ * The DO answers every request with its own response, status and headers
+ * included, and a client that disconnects cancels its stream in the DO.
+ * A client that reads too slowly is detached by the DO: its body ends
+ * early, and the rest is fetched straight from the origin, through the
+ * circuit breaker and with the provider's timeout and retries. Clients
+ * paced to a speed tier pass their rate on, so the DO doesn't mistake the
+ * pacing for a slow reader.
+ *
+ * Only the Range header reaches the DO, so sessions are shared by URL and
+ * range alone. The download route checks conditional headers against the
+ * validators of the body a session actually serves.
  */
 
+import { DEFAULT_CLIENT_MAX_BUFFERED_BYTES } from '../coalescer'
+import { fetchOrigin } from './allowlist'
+import { acquireOrigin, originOutcome, reportOrigin } from './breaker'
+import { readNumber } from './config'
+import { edgeCacheKey, getEdgeCacheConfig, matchEdgeCache, storeInEdgeCache } from './edge-cache'
+import { resolveProvider } from './providers'
+import { ByteInterval, formatContentRange, formatRange, parseContentRange, parseContentRangeTotal, parseRange, resolveRange } from './range'
+
 interface CoalescedFetchOptions {
     url: string
     headers?: Headers
     env: Env
-}
-
-interface ControlMessage {
-    type: 'headers' | 'done' | 'error'
-    status?: number
-    headers?: Record<string, string>
-    message?: string
+    // Needed to store blocks in the edge cache in the background
+    ctx?: ExecutionContext
+    // Rate the response is paced to for the client's tier (0 or none when unpaced)
+    bytesPerSecond?: number
 }
 
 /**
  * Performs a fetch through the coalescing Durable Object
  */
 export async function coalescedFetch(options: CoalescedFetchOptions): Promise<Response> {
-    const { url, headers, env } = options
+    const { url, headers, env, ctx, bytesPerSecond = 0 } = options
 
     // Get Range header if present
     const rangeHeader = headers?.get('range') || ''
@@ -32,125 +51,333 @@ export async function coalescedFetch(options: CoalescedFetchOptions): Promise<Re
     const urlObj = new URL(url)
     const doKey = urlObj.origin + urlObj.pathname
 
+    // The next block is fetched while the current one streams, so a block must fit in what the DO buffers for a client
+    const maxBuffered = readNumber(env.COALESCE_CLIENT_MAX_BUFFERED_BYTES, DEFAULT_CLIENT_MAX_BUFFERED_BYTES)
+    const blockSize = Math.min(readNumber(env.COALESCE_BLOCK_SIZE, 0), maxBuffered)
+    if (blockSize > 0) {
+        // Suffix and multi-range requests need the file size up front, so they aren't split
+        const range = parseRange(rangeHeader)
+        if (!rangeHeader || (range && range.start !== null)) {
+            return blockFetch(url, doKey, rangeHeader, blockSize, bytesPerSecond, env, ctx)
+        }
+    }
+
+    return fetchFromCoalescer(url, doKey, rangeHeader, bytesPerSecond, env, ctx)
+}
+
+/**
+ * Fetch one URL and range through the coalescer DO with the given name
+ */
+async function fetchFromCoalescer(
+    url: string,
+    doKey: string,
+    rangeHeader: string,
+    bytesPerSecond: number,
+    env: Env,
+    ctx?: ExecutionContext
+): Promise<Response> {
     // Get the Durable Object stub
     const doId = env.DOWNLOAD_COALESCER.idFromName(doKey)
     const doStub = env.DOWNLOAD_COALESCER.get(doId)
 
-    // Build the WebSocket URL with parameters
-    const wsUrl = new URL('https://coalescer.internal/ws')
-    wsUrl.searchParams.set('url', url)
+    const streamUrl = new URL('https://coalescer.internal/stream')
+    streamUrl.searchParams.set('url', url)
+    // Lets the DO name itself to the registry the admin API reads
+    streamUrl.searchParams.set('key', doKey)
     if (rangeHeader) {
-        wsUrl.searchParams.set('range', rangeHeader)
+        streamUrl.searchParams.set('range', rangeHeader)
+    }
+    if (bytesPerSecond > 0) {
+        streamUrl.searchParams.set('rate', bytesPerSecond.toString())
+    }
+
+    const response = await doStub.fetch(streamUrl.toString())
+    return continueDetached(url, response, env, ctx)
+}
+
+/**
+ * Pick the body up from the origin when the DO ends it before its
+ * Content-Length, as it does for clients that read too slowly
+ */
+function continueDetached(url: string, response: Response, env: Env, ctx?: ExecutionContext): Response {
+    const length = Number(response.headers.get('content-length'))
+    if ((response.status !== 200 && response.status !== 206) || !response.body || !length) {
+        return response
+    }
+
+    const start = response.status === 206 ? parseContentRange(response.headers.get('content-range'))?.start ?? null : 0
+    if (start === null) {
+        return response
     }
 
-    // Upgrade to WebSocket
-    const wsResponse = await doStub.fetch(wsUrl.toString(), {
-        headers: {
-            'Upgrade': 'websocket'
+    const etag = response.headers.get('etag')
+    const validator = etag && !etag.startsWith('W/') ? etag : response.headers.get('last-modified')
+    let reader = response.body.getReader()
+    let received = 0
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                let result = await reader.read()
+                if (result.done && received < length) {
+                    reader = await fetchRest(url, start + received, start + length - 1, validator, env, ctx)
+                    result = await reader.read()
+                }
+
+                if (result.done) {
+                    controller.close()
+                } else {
+                    received += result.value.byteLength
+                    controller.enqueue(result.value)
+                }
+            } catch (error) {
+                console.error(`[COALESCE:DETACHED] ${url} at ${start + received} failed:`, (error as Error).message)
+                controller.error(error)
+            }
+        },
+        async cancel(reason) {
+            await reader.cancel(reason)
         }
     })
 
-    // Get the WebSocket from the response
-    const ws = wsResponse.webSocket
-    if (!ws) {
-        throw new Error('Failed to establish WebSocket connection')
+    return new Response(body, response)
+}
+
+/**
+ * Request the rest of a detached body straight from the origin, like the
+ * download route's direct fetch: through the breaker, with the provider's
+ * timeout and retries
+ */
+async function fetchRest(
+    url: string,
+    from: number,
+    to: number,
+    validator: string | null,
+    env: Env,
+    ctx?: ExecutionContext
+): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+    // If-Range makes a changed file come back whole, which is then refused
+    const headers: Record<string, string> = { 'Range': formatRange(from, to) }
+    if (validator) {
+        headers['If-Range'] = validator
     }
 
-    // Accept the WebSocket connection
-    ws.accept()
+    const originUrl = new URL(url)
+    const { maxRetries, baseDelayMs, timeoutMs } = resolveProvider(originUrl, env).retry
+    const report = (response: Response | null) => {
+        const outcome = originOutcome(response)
+        const reported = reportOrigin(env, originUrl, outcome)
+        if (ctx) ctx.waitUntil(reported)
+        return outcome
+    }
 
-    // Create a TransformStream for the response body
-    const { readable, writable } = new TransformStream()
-    const writer = writable.getWriter()
+    let failure = 'no attempt made'
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (attempt > 0) {
+            await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt - 1) * baseDelayMs))
+        }
 
-    // Track response metadata
-    let responseStatus: number = 200
-    let responseHeaders: Headers = new Headers()
-    let headersReceived = false
-    let headerResolve: ((value: void) => void) | null = null
-    let headerReject: ((error: Error) => void) | null = null
+        const decision = await acquireOrigin(env, originUrl)
+        if (!decision.allowed) {
+            throw new Error(`Origin is backing off for ${decision.retryAfter ?? 1}s`)
+        }
 
-    const headersPromise = new Promise<void>((resolve, reject) => {
-        headerResolve = resolve
-        headerReject = reject
-    })
+        // The timeout covers the response headers, not the rest of the body
+        const controller = new AbortController()
+        const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
 
-    // Handle WebSocket messages
-    ws.addEventListener('message', async (event) => {
+        let response: Response
         try {
-            const data = event.data
+            response = await fetchOrigin(url, { headers, signal: controller.signal }, env)
+        } catch (error) {
+            report(null)
+            failure = (error as Error).message
+            continue
+        } finally {
+            clearTimeout(timeoutId)
+        }
 
-            // Binary message = raw chunk data
-            if (data instanceof ArrayBuffer) {
-                await writer.write(new Uint8Array(data))
-                return
-            }
+        const outcome = report(response)
+        const contentRange = parseContentRange(response.headers.get('content-range'))
+        if (response.status === 206 && contentRange?.start === from && response.body) {
+            return response.body.getReader()
+        }
 
-            // Text message = JSON control message
-            if (typeof data === 'string') {
-                const message: ControlMessage = JSON.parse(data)
-
-                switch (message.type) {
-                    case 'headers':
-                        responseStatus = message.status || 200
-                        if (message.headers) {
-                            responseHeaders = new Headers(message.headers)
-                        }
-                        headersReceived = true
-                        if (headerResolve) headerResolve()
-                        break
-
-                    case 'done':
-                        await writer.close()
-                        ws.close(1000, 'Complete')
-                        break
-
-                    case 'error':
-                        if (!headersReceived) {
-                            responseStatus = message.status || 500
-                            if (headerResolve) headerResolve()
-                        }
-                        await writer.abort(new Error(message.message || 'Unknown error'))
-                        ws.close(1011, 'Error')
-                        break
-                }
+        response.body?.cancel().catch(() => {})
+        failure = `Origin answered ${response.status} for the rest of a detached download`
+
+        // Only throttling and server errors are worth another try, and not when told when to come back
+        if (outcome.ok || outcome.retryAfter !== undefined) break
+    }
+
+    throw new Error(failure)
+}
+
+/**
+ * Split the request into aligned blocks, coalesce each block separately and
+ * stitch the requested bytes back together into one response
+ */
+async function blockFetch(
+    url: string,
+    doKey: string,
+    rangeHeader: string,
+    blockSize: number,
+    bytesPerSecond: number,
+    env: Env,
+    ctx?: ExecutionContext
+): Promise<Response> {
+    const shards = readNumber(env.COALESCE_BLOCK_SHARDS, 0)
+    const cacheConfig = getEdgeCacheConfig(env)
+    const range = parseRange(rangeHeader)
+    const firstBlock = Math.floor((range?.start ?? 0) / blockSize)
+
+    const fetchBlock = async (index: number) => {
+        const cacheKey = edgeCacheKey(new URL(url), { index, size: blockSize })
+
+        // Blocks are cached individually, so a cached block skips the coalescer entirely
+        if (cacheConfig.ttl > 0) {
+            const cached = await matchEdgeCache(cacheKey)
+            if (cached) {
+                const headers = new Headers(cached.headers)
+                headers.set('x-cache', 'HIT')
+                return new Response(cached.body, { status: 206, headers })
             }
-        } catch (e) {
-            // Silently handle errors to avoid log spam
         }
-    })
 
-    ws.addEventListener('error', async () => {
-        try {
-            if (!headersReceived && headerReject) {
-                headerReject(new Error('WebSocket error'))
+        const shard = shards > 0 ? index % shards : index
+        const blockRange = formatRange(index * blockSize, (index + 1) * blockSize - 1)
+        const response = await fetchFromCoalescer(url, `${doKey}#block-${shard}`, blockRange, bytesPerSecond, env, ctx)
+
+        if (!ctx || cacheConfig.ttl <= 0 || response.status !== 206) {
+            return response
+        }
+
+        const headers = new Headers(response.headers)
+        headers.set('x-cache', 'MISS')
+        return storeInEdgeCache(cacheKey, new Response(response.body, { status: 206, headers }), cacheConfig, ctx)
+    }
+
+    const first = await fetchBlock(firstBlock)
+
+    // An empty file can't satisfy the first block's range, but a plain GET for it is fine
+    if (!range && first.status === 416 && parseContentRangeTotal(first.headers.get('content-range')) === 0) {
+        await first.body?.cancel()
+        const headers = new Headers(first.headers)
+        headers.delete('content-range')
+        headers.set('content-length', '0')
+        return new Response(null, { status: 200, headers })
+    }
+
+    // Errors and origins that ignore ranges are returned as they are
+    const contentRange = parseContentRange(first.headers.get('content-range'))
+    if (first.status !== 206 || !contentRange || contentRange.total === null) {
+        return first
+    }
+
+    const total = contentRange.total
+    const interval = range ? resolveRange(range, total) : { start: 0, end: total - 1 }
+    if (!interval) {
+        await first.body?.cancel()
+        return new Response(null, {
+            status: 416,
+            headers: { 'content-range': `bytes */${total}` }
+        })
+    }
+
+    const headers = new Headers(first.headers)
+    headers.set('content-length', (interval.end - interval.start + 1).toString())
+    if (range) {
+        headers.set('content-range', formatContentRange(interval, total))
+    } else {
+        headers.delete('content-range')
+    }
+
+    const chunks = blockChunks(first, fetchBlock, firstBlock, Math.floor(interval.end / blockSize), blockSize, interval)
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await chunks.next()
+                if (done) {
+                    controller.close()
+                } else {
+                    controller.enqueue(value)
+                }
+            } catch (error) {
+                controller.error(error)
             }
-            await writer.abort(new Error('WebSocket error'))
-        } catch (e) {
-            // Ignore
+        },
+        async cancel() {
+            await chunks.return(undefined)
         }
     })
 
-    ws.addEventListener('close', async () => {
-        try {
-            await writer.close()
-        } catch (e) {
-            // Already closed
-        }
+    return new Response(body, {
+        status: range ? 206 : 200,
+        headers
     })
+}
 
-    // Wait for headers before returning response
-    await headersPromise
+/**
+ * Yield the bytes of `interval` from consecutive blocks, fetching the next
+ * block while the current one streams
+ */
+async function* blockChunks(
+    first: Response,
+    fetchBlock: (index: number) => Promise<Response>,
+    firstBlock: number,
+    lastBlock: number,
+    blockSize: number,
+    interval: ByteInterval
+): AsyncGenerator<Uint8Array> {
+    const etag = first.headers.get('etag')
+    let current: Promise<Response> = Promise.resolve(first)
+    let next: Promise<Response> | null = null
 
-    return new Response(readable, {
-        status: responseStatus,
-        headers: responseHeaders
-    })
+    try {
+        for (let index = firstBlock; index <= lastBlock; index++) {
+            const response = await current
+            next = index < lastBlock ? fetchBlock(index + 1) : null
+
+            if (response.status !== 206) {
+                throw new Error(`Block ${index} failed with status ${response.status}`)
+            }
+            if (etag && response.headers.get('etag') !== etag) {
+                throw new Error('File changed during download')
+            }
+
+            yield* sliceBody(response, index * blockSize, interval)
+
+            if (next) current = next
+        }
+    } finally {
+        // Don't leave a prefetched block streaming into nowhere
+        next?.then(response => response.body?.cancel()).catch(() => {})
+    }
 }
 
 /**
- * Check if a URL is a B2 URL that should use coalescing
+ * Yield the part of a response body starting at file offset `offset` that
+ * falls into `interval`
  */
-export function isB2Url(url: string): boolean {
-    return url.includes('backblazeb2.com')
+async function* sliceBody(response: Response, offset: number, interval: ByteInterval): AsyncGenerator<Uint8Array> {
+    const reader = response.body?.getReader()
+    if (!reader) return
+
+    try {
+        while (offset <= interval.end) {
+            const { done, value } = await reader.read()
+            if (done) break
+
+            const from = Math.max(0, interval.start - offset)
+            const to = Math.min(value.byteLength, interval.end + 1 - offset)
+            offset += value.byteLength
+
+            if (to > from) {
+                yield value.subarray(from, to)
+            }
+        }
+    } finally {
+        reader.cancel().catch(() => {})
+    }
 }
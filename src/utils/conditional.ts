@@ -0,0 +1,145 @@
+/**
+ * Conditional - Evaluates the client's preconditions against the file
+ *
+ * Origins differ in which conditional headers they honor, and coalesced
+ * and cached responses never see them at all. So whatever path served the
+ * download, the preconditions are checked again against the validators
+ * (ETag / Last-Modified) of the body actually being sent, in the order of
+ * RFC 9110 section 13.2.2:
+ * - If-Match fails:                          412
+ * - If-None-Match or If-Modified-Since hold: 304
+ * - If-Range doesn't match a 206:            the whole file instead
+ */
+
+export interface Validators {
+    etag: string | null
+    lastModified: string | null
+}
+
+// Headers a 304 carries over from the full response
+const NOT_MODIFIED_HEADERS = ['etag', 'last-modified', 'cache-control', 'expires', 'vary', 'content-location', 'date']
+
+/**
+ * Read the validators of a response.
+ * @param headers
+ */
+export const responseValidators = (headers: Headers): Validators => ({
+    etag: headers.get('etag'),
+    lastModified: headers.get('last-modified')
+})
+
+const parseEtags = (header: string): string[] => header.split(',').map(tag => tag.trim()).filter(Boolean)
+
+const isWeak = (tag: string) => tag.startsWith('W/')
+
+const strongMatch = (a: string, b: string) => !isWeak(a) && !isWeak(b) && a === b
+
+const weakMatch = (a: string, b: string) => a.replace(/^W\//, '') === b.replace(/^W\//, '')
+
+const parseDate = (value: string | null): number | null => {
+    if (!value) return null
+    const time = Date.parse(value)
+    return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Evaluate If-Match, If-None-Match and If-Modified-Since for a GET or HEAD.
+ * Returns the status to answer with instead of the file, or null.
+ * @param headers
+ * @param validators
+ */
+export const checkPreconditions = (headers: Headers, validators: Validators): 304 | 412 | null => {
+    const ifMatch = headers.get('if-match')
+    if (ifMatch) {
+        const tags = parseEtags(ifMatch)
+        const matches = tags.includes('*') ||
+            (validators.etag !== null && tags.some(tag => strongMatch(tag, validators.etag!)))
+        if (!matches) return 412
+    }
+
+    const ifNoneMatch = headers.get('if-none-match')
+    if (ifNoneMatch) {
+        const tags = parseEtags(ifNoneMatch)
+        const matches = tags.includes('*') ||
+            (validators.etag !== null && tags.some(tag => weakMatch(tag, validators.etag!)))
+        return matches ? 304 : null
+    }
+
+    // only consulted without If-None-Match
+    const since = parseDate(headers.get('if-modified-since'))
+    const lastModified = parseDate(validators.lastModified)
+    if (since !== null && lastModified !== null && lastModified <= since) {
+        return 304
+    }
+
+    return null
+}
+
+/**
+ * Whether a range may be served under the request's If-Range: always
+ * without one, otherwise only for the exact same version of the file.
+ * @param headers
+ * @param validators
+ */
+export const ifRangeMatches = (headers: Headers, validators: Validators): boolean => {
+    const ifRange = headers.get('if-range')?.trim()
+    if (!ifRange) return true
+
+    // an entity tag, which must match strongly
+    if (ifRange.startsWith('"') || isWeak(ifRange)) {
+        return validators.etag !== null && strongMatch(ifRange, validators.etag)
+    }
+
+    // a date, which must be the exact Last-Modified
+    const date = parseDate(ifRange)
+    return date !== null && date === parseDate(validators.lastModified)
+}
+
+/**
+ * Apply the request's preconditions to a successful response: answer 304
+ * or 412 in its place, or get the whole file when If-Range rules out the
+ * range that was served (for GETs, which pass `fetchWhole`). Other
+ * responses are returned as they are.
+ * @param headers
+ * @param response
+ * @param fetchWhole
+ */
+export const applyConditionals = async (
+    headers: Headers,
+    response: Response,
+    fetchWhole?: () => Promise<Response>
+): Promise<Response> => {
+    if (!response.ok) {
+        return response
+    }
+
+    const validators = responseValidators(response.headers)
+    const status = checkPreconditions(headers, validators)
+    if (status) {
+        response.body?.cancel().catch(() => {})
+        const kept = new Headers()
+        for (const name of NOT_MODIFIED_HEADERS) {
+            const value = response.headers.get(name)
+            if (value) kept.set(name, value)
+        }
+        return new Response(null, { status, headers: kept })
+    }
+
+    if (fetchWhole && response.status === 206 && !ifRangeMatches(headers, validators)) {
+        response.body?.cancel().catch(() => {})
+        return fetchWhole()
+    }
+
+    return response
+}
+
+/**
+ * Copy request headers without Range and If-Range, to ask for the whole file.
+ * @param headers
+ */
+export const withoutRange = (headers: Headers): Headers => {
+    const whole = new Headers(headers)
+    whole.delete('range')
+    whole.delete('if-range')
+    return whole
+}
@@ -0,0 +1,14 @@
+/**
+ * Read a numeric setting from an env var, falling back to the given default
+ * when the var is missing or not a valid non-negative number.
+ * @param value
+ * @param fallback
+ */
+export const readNumber = (value: string | undefined, fallback: number): number => {
+    if (value === undefined || value.trim() === '') {
+        return fallback
+    }
+
+    const parsed = Number(value)
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
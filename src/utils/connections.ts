@@ -0,0 +1,117 @@
+/**
+ * Connections - Holds a ConnectionLimiter lease for as long as a download
+ * streams
+ *
+ * The lease is given back when the body has been fully read or the client
+ * cancels it, and renewed while chunks keep flowing. If the limiter can't
+ * be reached the download goes ahead without a lease.
+ */
+
+import { error } from 'itty-router'
+import type { LeaseResult } from '../connection-limiter'
+import { readNumber } from './config'
+import { watchBody } from './streams'
+import { TokenClaims } from './token'
+
+const DEFAULT_LEASE_TTL_MS = 60 * 1000
+
+export interface ConnectionLease {
+    renew: () => void
+    release: () => void
+}
+
+/**
+ * The user a download is counted against: the token's subject when there
+ * is one, the client IP otherwise.
+ * @param claims
+ * @param ip
+ */
+export const connectionSubject = (claims: TokenClaims | undefined, ip: string): string => {
+    return claims?.sub ? `user:${claims.sub}` : `ip:${ip}`
+}
+
+/**
+ * Take a connection slot for the subject. Returns the lease, a 429 when
+ * all slots are in use, or null when there is no limit (or no limiter).
+ * @param env
+ * @param ctx
+ * @param subject
+ * @param max
+ */
+export const acquireConnection = async (
+    env: Env,
+    ctx: ExecutionContext,
+    subject: string,
+    max: number
+): Promise<ConnectionLease | Response | null> => {
+    if (max <= 0) {
+        return null
+    }
+
+    const stub = env.CONNECTION_LIMITER.get(env.CONNECTION_LIMITER.idFromName(subject))
+    const ttlMs = readNumber(env.CONNECTION_LEASE_TTL_MS, DEFAULT_LEASE_TTL_MS)
+
+    let result: LeaseResult
+    try {
+        const response = await stub.fetch('https://connection-limiter.internal/acquire', {
+            method: 'POST',
+            body: JSON.stringify({ max, ttlMs })
+        })
+        result = await response.json<LeaseResult>()
+    } catch (e) {
+        return null
+    }
+
+    if (!result.allowed || !result.leaseId) {
+        console.error(`[CONNECTIONS:LIMIT] ${subject} already has ${result.active} of ${max} downloads open`)
+        return error(429, 'too_many_connections')
+    }
+
+    const leaseId = result.leaseId
+    const call = (path: string) => {
+        ctx.waitUntil(stub.fetch(`https://connection-limiter.internal/${path}`, {
+            method: 'POST',
+            body: JSON.stringify({ leaseId, ttlMs })
+        }).then(response => response.body?.cancel()).catch(() => {}))
+    }
+
+    let released = false
+    let renewedAt = Date.now()
+
+    return {
+        renew: () => {
+            // renew about twice per TTL while data flows
+            if (released || Date.now() - renewedAt < ttlMs / 2) return
+            renewedAt = Date.now()
+            call('renew')
+        },
+        release: () => {
+            if (released) return
+            released = true
+            call('release')
+        }
+    }
+}
+
+/**
+ * Keep the lease while the response body streams and give it back when the
+ * body is done or cancelled.
+ * @param response
+ * @param lease
+ */
+export const holdConnection = (response: Response, lease: ConnectionLease | null): Response => {
+    if (!lease) {
+        return response
+    }
+
+    // errors and 304s are over quickly, only file bodies hold a slot
+    if (!response.body || !response.ok) {
+        lease.release()
+        return response
+    }
+
+    return watchBody(response, {
+        onChunk: () => lease.renew(),
+        onEnd: () => lease.release()
+    })
+}
@@ -0,0 +1,109 @@
+/**
+ * Edge Cache - Keeps successful origin responses in the Workers Cache API
+ *
+ * Entries are keyed by the decrypted object path rather than the signed
+ * URL, so every link to the same file shares one entry. `cache.match`
+ * serves Range requests (206) and conditional requests (304) from a stored
+ * full response on its own.
+ *
+ * The cache is off unless EDGE_CACHE_TTL is set.
+ */
+
+import { readNumber } from './config'
+
+const DEFAULT_TTL_SECONDS = 0
+const DEFAULT_MAX_BYTES = 32 * 1024 * 1024
+
+export interface EdgeCacheConfig {
+    ttl: number
+    maxBytes: number
+}
+
+/**
+ * Read the edge cache settings. A TTL of 0 disables the cache.
+ * @param env
+ */
+export const getEdgeCacheConfig = (env: Env): EdgeCacheConfig => ({
+    ttl: readNumber(env.EDGE_CACHE_TTL, DEFAULT_TTL_SECONDS),
+    maxBytes: readNumber(env.EDGE_CACHE_MAX_BYTES, DEFAULT_MAX_BYTES)
+})
+
+/**
+ * Build the cache key for an object, optionally for one block of it. The
+ * block size is part of the key, so blocks cached before the size changed
+ * are never sliced at the wrong offsets.
+ * @param url
+ * @param block
+ */
+export const edgeCacheKey = (url: URL, block?: { index: number, size: number }): string => {
+    const key = new URL(`https://edge-cache.internal/${url.host}${url.pathname}`)
+    if (block !== undefined) {
+        key.searchParams.set('block', block.index.toString())
+        key.searchParams.set('size', block.size.toString())
+    }
+    return key.toString()
+}
+
+/**
+ * Look up a cached response, forwarding the Range and conditional headers
+ * that `cache.match` understands.
+ * @param key
+ * @param headers
+ */
+export const matchEdgeCache = async (key: string, headers?: Headers): Promise<Response | undefined> => {
+    const matchHeaders = new Headers()
+    for (const name of ['range', 'if-none-match', 'if-modified-since']) {
+        const value = headers?.get(name)
+        if (value) matchHeaders.set(name, value)
+    }
+
+    try {
+        return await caches.default.match(new Request(key, { headers: matchHeaders }))
+    } catch (e) {
+        // A cache failure should never fail the download
+        return undefined
+    }
+}
+
+/**
+ * Check whether a response may be stored under the current settings.
+ * @param response
+ * @param config
+ */
+export const isCacheable = (response: Response, config: EdgeCacheConfig): boolean => {
+    if (config.ttl <= 0 || !response.body) return false
+    if (response.status !== 200 && response.status !== 206) return false
+    if (/no-store|private/i.test(response.headers.get('cache-control') || '')) return false
+
+    const length = Number(response.headers.get('content-length'))
+    return Number.isFinite(length) && length > 0 && length <= config.maxBytes
+}
+
+/**
+ * Store a copy of the response in the cache in the background and return
+ * a response to serve in its place. Partial responses are stored as plain
+ * 200s because the Cache API rejects 206s; callers restore the status.
+ * @param key
+ * @param response
+ * @param config
+ * @param ctx
+ */
+export const storeInEdgeCache = (key: string, response: Response, config: EdgeCacheConfig, ctx: ExecutionContext): Response => {
+    if (!isCacheable(response, config) || !response.body) {
+        return response
+    }
+
+    const [body, copy] = response.body.tee()
+
+    const cacheHeaders = new Headers(response.headers)
+    cacheHeaders.set('cache-control', `public, max-age=${config.ttl}`)
+    cacheHeaders.delete('set-cookie')
+
+    ctx.waitUntil(
+        caches.default
+            .put(key, new Response(copy, { status: 200, headers: cacheHeaders }))
+            .catch(error => console.error('Edge cache put failed:', error))
+    )
+
+    return new Response(body, response)
+}
@@ -1,3 +1,23 @@
+/**
+ * Encode bytes as unpadded base64url.
+ * @param bytes
+ */
+export const base64UrlEncode = (bytes: ArrayBuffer | Uint8Array) => {
+    return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+/**
+ * Decode unpadded base64url (plain base64 is accepted too).
+ * @param content
+ */
+export const base64UrlDecode = (content: string) => {
+    const base64 = content.replace(/-/g, '+').replace(/_/g, '/')
+    return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), c => c.charCodeAt(0))
+}
+
 /**
  * Generate a signature for the given IP address using the given secret.
  * @param ip
@@ -0,0 +1,187 @@
+/**
+ * IP address helpers for signature binding and trusted proxy checks
+ */
+
+export interface ParsedIP {
+    version: 4 | 6
+    bytes: Uint8Array
+}
+
+const parseIPv4 = (ip: string): Uint8Array | null => {
+    const parts = ip.split('.')
+    if (parts.length !== 4) return null
+
+    const bytes = new Uint8Array(4)
+    for (let i = 0; i < 4; i++) {
+        if (!/^\d{1,3}$/.test(parts[i])) return null
+        const value = Number(parts[i])
+        if (value > 255) return null
+        bytes[i] = value
+    }
+    return bytes
+}
+
+const parseIPv6 = (ip: string): Uint8Array | null => {
+    // Drop the zone index (fe80::1%eth0)
+    let address = ip.split('%')[0]
+
+    // An embedded IPv4 tail (::ffff:1.2.3.4) becomes two hextets
+    const lastColon = address.lastIndexOf(':')
+    if (address.includes('.', lastColon)) {
+        const v4 = parseIPv4(address.slice(lastColon + 1))
+        if (!v4) return null
+        const high = ((v4[0] << 8) | v4[1]).toString(16)
+        const low = ((v4[2] << 8) | v4[3]).toString(16)
+        address = `${address.slice(0, lastColon + 1)}${high}:${low}`
+    }
+
+    const halves = address.split('::')
+    if (halves.length > 2) return null
+
+    const head = halves[0] ? halves[0].split(':') : []
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+    const missing = 8 - head.length - tail.length
+    if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+    const hextets = [...head, ...new Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+    const bytes = new Uint8Array(16)
+    for (let i = 0; i < 8; i++) {
+        if (!/^[0-9a-f]{1,4}$/i.test(hextets[i])) return null
+        const value = parseInt(hextets[i], 16)
+        bytes[i * 2] = value >> 8
+        bytes[i * 2 + 1] = value & 0xff
+    }
+    return bytes
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. Returns null for anything else.
+ * @param ip
+ */
+export const parseIP = (ip: string): ParsedIP | null => {
+    const value = ip.trim().replace(/^\[|\]$/g, '')
+    if (value.includes(':')) {
+        const bytes = parseIPv6(value)
+        return bytes ? { version: 6, bytes } : null
+    }
+
+    const bytes = parseIPv4(value)
+    return bytes ? { version: 4, bytes } : null
+}
+
+/**
+ * Check whether an IP address falls inside a CIDR prefix. A prefix without
+ * a length only matches the exact address.
+ * @param ip
+ * @param prefix
+ */
+export const ipInPrefix = (ip: string, prefix: string): boolean => {
+    const [network, lengthPart] = prefix.split('/')
+    const address = parseIP(ip)
+    const base = parseIP(network)
+    if (!address || !base || address.version !== base.version) return false
+
+    const maxLength = base.bytes.length * 8
+    const length = lengthPart === undefined ? maxLength : Number(lengthPart)
+    if (!Number.isInteger(length) || length < 0 || length > maxLength) return false
+
+    const fullBytes = Math.floor(length / 8)
+    for (let i = 0; i < fullBytes; i++) {
+        if (address.bytes[i] !== base.bytes[i]) return false
+    }
+
+    const remainingBits = length % 8
+    if (remainingBits === 0) return true
+
+    const mask = (0xff << (8 - remainingBits)) & 0xff
+    return (address.bytes[fullBytes] & mask) === (base.bytes[fullBytes] & mask)
+}
+
+/**
+ * Write an IPv6 address in its canonical RFC 5952 form: lowercase, no
+ * leading zeros, and the longest run of two or more zero groups (the
+ * first one on a tie) shortened to "::". The same text PHP's inet_ntop gives.
+ * @param bytes
+ */
+const formatIPv6 = (bytes: Uint8Array): string => {
+    const hextets: number[] = []
+    for (let i = 0; i < 16; i += 2) {
+        hextets.push((bytes[i] << 8) | bytes[i + 1])
+    }
+
+    let runStart = -1
+    let runLength = 0
+    for (let i = 0; i < 8; i++) {
+        let length = 0
+        while (i + length < 8 && hextets[i + length] === 0) length++
+        if (length > runLength && length >= 2) {
+            runStart = i
+            runLength = length
+        }
+        i += length
+    }
+
+    const hex = (values: number[]) => values.map(value => value.toString(16)).join(':')
+    if (runStart === -1) {
+        return hex(hextets)
+    }
+    return `${hex(hextets.slice(0, runStart))}::${hex(hextets.slice(runStart + runLength))}`
+}
+
+/**
+ * The network an address belongs to for prefix-bound signatures, and the
+ * exact string that gets signed: the /24 for IPv4 ("203.0.113.0/24") and
+ * the /64 for IPv6 with the host bits zeroed, in RFC 5952 form
+ * ("2001:db8::/64", not "2001:db8:0:0::/64").
+ * @param ip
+ */
+export const ipPrefix = (ip: string): string | null => {
+    const address = parseIP(ip)
+    if (!address) return null
+
+    if (address.version === 4) {
+        const [a, b, c] = address.bytes
+        return `${a}.${b}.${c}.0/24`
+    }
+
+    const network = new Uint8Array(16)
+    network.set(address.bytes.subarray(0, 8))
+    return `${formatIPv6(network)}/64`
+}
+
+/**
+ * Work out the real client IP. CF-Connecting-IP is the peer Cloudflare saw;
+ * X-Forwarded-For and X-Real-IP are only believed when that peer is one of
+ * TRUSTED_PROXIES (comma-separated CIDRs), walking the chain from the right
+ * past every trusted hop.
+ * @param headers
+ * @param env
+ */
+export const resolveClientIP = (headers: Headers, env: Env): string => {
+    const peer = headers.get('CF-Connecting-IP') || '127.0.0.1'
+    const trusted = (env.TRUSTED_PROXIES || '').split(',').map(entry => entry.trim()).filter(Boolean)
+    const isTrusted = (ip: string) => trusted.some(prefix => ipInPrefix(ip, prefix))
+
+    if (!isTrusted(peer)) {
+        return peer
+    }
+
+    const forwarded = (headers.get('x-forwarded-for') || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => parseIP(entry))
+
+    for (let i = forwarded.length - 1; i >= 0; i--) {
+        if (!isTrusted(forwarded[i])) {
+            return forwarded[i]
+        }
+    }
+
+    const realIP = headers.get('x-real-ip')?.trim()
+    if (realIP && parseIP(realIP)) {
+        return realIP
+    }
+
+    // Every hop is trusted, so the leftmost one is as close to the client as we get
+    return forwarded[0] || peer
+}
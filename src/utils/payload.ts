@@ -0,0 +1,74 @@
+/**
+ * Origin Payload - What a decrypted urlHASH describes
+ *
+ * Legacy hashes decrypt to a bare URL. Newer ones may decrypt to a JSON
+ * object carrying extra instructions next to the URL:
+ *   { "url": "https://...", "sha1": "<hex>", "md5": "<hex>", "sha256": "<hex>" }
+ * optionally followed by mirrors of the same file, tried in order when the
+ * URL fails:
+ *   { "url": "https://...", "mirrors": ["https://...", ...] }
+ * or naming an R2 bucket binding and key instead of a URL:
+ *   { "bucket": "BUCKET", "key": "path/to/file" }
+ *
+ * Download payloads may also set the speed the file is served at, with
+ * "tier": "free" or "bytesPerSecond": 524288, and the XFS file code usage
+ * is reported under, with "fileId".
+ */
+
+import { decodeUrlHash, UrlHashRoute } from './url-hash'
+
+export interface OriginPayload {
+    url?: string
+    // Fallback URLs for the same file, in order of preference
+    mirrors?: string[]
+    // R2 bucket binding name and object key, used instead of a URL
+    bucket?: string
+    key?: string
+    // XFS file code for usage reports (defaults to the key or URL path)
+    fileId?: string
+    // Download speed tier or explicit limit, see utils/tiers
+    tier?: string
+    bytesPerSecond?: number
+    // Expected checksums of the upload body, hex encoded
+    sha1?: string
+    md5?: string
+    sha256?: string
+}
+
+/**
+ * Parse decrypted urlHASH content into a payload.
+ * @param plaintext
+ */
+export const parsePayload = (plaintext: string): OriginPayload => {
+    const content = plaintext.trim()
+    if (!content.startsWith('{')) {
+        return { url: content }
+    }
+
+    const payload = JSON.parse(content)
+    const hasObject = typeof payload?.bucket === 'string' && typeof payload?.key === 'string'
+    if (typeof payload?.url !== 'string' && !hasObject) {
+        throw new Error('Payload has no url or bucket object')
+    }
+
+    return payload as OriginPayload
+}
+
+/**
+ * Decrypt a urlHASH and parse the payload inside it.
+ * @param urlHASH
+ * @param env
+ * @param route
+ */
+export const decodePayload = async (urlHASH: string, env: Env, route: UrlHashRoute): Promise<OriginPayload> => {
+    return parsePayload(await decodeUrlHash(urlHASH, env, route))
+}
+
+/**
+ * The URLs a payload can be fetched from: the primary URL, then its mirrors.
+ * @param payload
+ */
+export const originUrls = (payload: OriginPayload): string[] => {
+    const mirrors = Array.isArray(payload.mirrors) ? payload.mirrors.filter(url => typeof url === 'string') : []
+    return [payload.url, ...mirrors].filter((url): url is string => !!url)
+}
@@ -0,0 +1,189 @@
+/**
+ * Storage Providers - What we know about each kind of origin
+ *
+ * Every decrypted URL is matched against the registry by host name. The
+ * provider decides whether downloads are coalesced, how they are retried,
+ * which client headers reach the origin and how its error bodies read.
+ *
+ * Extra providers come from STORAGE_PROVIDERS, a JSON array (string var or
+ * JSON binding). Entries are checked before the built-ins, and an entry
+ * named like a built-in replaces it:
+ *   [{ "name": "media", "hosts": ["media.example.com"], "coalesce": true }]
+ */
+
+export type ErrorFormat = 's3' | 'b2' | 'text'
+
+export interface RetryPolicy {
+    maxRetries: number
+    // Backoff doubles from this delay on every retry
+    baseDelayMs: number
+    // Per-attempt timeout
+    timeoutMs: number
+}
+
+export interface StorageProvider {
+    name: string
+    // Host names to match, "*.example.com" matches any subdomain and "*" matches everything
+    hosts: string[]
+    coalesce: boolean
+    retry: RetryPolicy
+    // Client request headers forwarded on downloads
+    forwardHeaders: string[]
+    errorFormat: ErrorFormat
+    uploadTimeoutMs: number
+}
+
+export type ProviderConfig = Partial<Omit<StorageProvider, 'retry'>> & {
+    name: string
+    retry?: Partial<RetryPolicy>
+}
+
+export interface OriginError {
+    status: number
+    code: string
+    message: string
+    // Throttling and transient origin trouble are worth another attempt
+    retryable: boolean
+}
+
+const DEFAULT_PROVIDER: StorageProvider = {
+    name: 'default',
+    hosts: ['*'],
+    coalesce: false,
+    retry: { maxRetries: 2, baseDelayMs: 1000, timeoutMs: 25000 },
+    forwardHeaders: ['range', 'if-range', 'if-match', 'if-none-match', 'if-modified-since'],
+    errorFormat: 'text',
+    uploadTimeoutMs: 300000
+}
+
+const BUILTIN_PROVIDERS: ProviderConfig[] = [
+    // B2 rate limits downloads per file, so concurrent requests are coalesced
+    { name: 'b2', hosts: ['*.backblazeb2.com', '*.backblaze.com'], coalesce: true, errorFormat: 'b2' },
+    { name: 'r2', hosts: ['*.r2.cloudflarestorage.com', '*.r2.dev'], errorFormat: 's3' },
+    { name: 'wasabi', hosts: ['wasabisys.com', '*.wasabisys.com'], errorFormat: 's3' },
+    { name: 's3', hosts: ['*.amazonaws.com'], errorFormat: 's3' }
+]
+
+const RETRYABLE_CODES = new Set([
+    // S3-compatible
+    'SlowDown', 'ServiceUnavailable', 'InternalError', 'RequestTimeout',
+    // B2
+    'too_many_requests', 'service_unavailable', 'internal_error'
+])
+
+/**
+ * Check a host name against a pattern from a provider's host list.
+ * @param host
+ * @param pattern
+ */
+export const hostMatches = (host: string, pattern: string): boolean => {
+    const hostname = host.toLowerCase()
+    const expected = pattern.trim().toLowerCase()
+
+    if (expected === '*') {
+        return true
+    }
+    if (expected.startsWith('*.')) {
+        return hostname.endsWith(expected.slice(1))
+    }
+    return hostname === expected
+}
+
+const withDefaults = (config: ProviderConfig): StorageProvider => ({
+    ...DEFAULT_PROVIDER,
+    hosts: [],
+    ...config,
+    retry: { ...DEFAULT_PROVIDER.retry, ...config.retry },
+    forwardHeaders: (config.forwardHeaders || DEFAULT_PROVIDER.forwardHeaders).map(header => header.toLowerCase())
+})
+
+const readProviderConfig = (value: Env['STORAGE_PROVIDERS']): ProviderConfig[] => {
+    if (!value) {
+        return []
+    }
+
+    try {
+        const parsed = typeof value === 'string' ? JSON.parse(value) : value
+        return Array.isArray(parsed) ? parsed.filter(entry => typeof entry?.name === 'string') : []
+    } catch (e) {
+        console.error('Invalid STORAGE_PROVIDERS, using the built-in providers only')
+        return []
+    }
+}
+
+/**
+ * The registry in match order: configured providers, then the built-ins
+ * they don't replace.
+ * @param env
+ */
+export const getProviders = (env: Env): StorageProvider[] => {
+    const configured = readProviderConfig(env.STORAGE_PROVIDERS)
+    const names = new Set(configured.map(config => config.name))
+
+    return [
+        ...configured,
+        ...BUILTIN_PROVIDERS.filter(config => !names.has(config.name))
+    ].map(withDefaults)
+}
+
+/**
+ * Pick the provider serving a URL, or the default one when nothing matches.
+ * @param url
+ * @param env
+ */
+export const resolveProvider = (url: URL, env: Env): StorageProvider => {
+    const provider = getProviders(env).find(candidate => {
+        return candidate.hosts.some(pattern => hostMatches(url.hostname, pattern))
+    })
+
+    return provider || DEFAULT_PROVIDER
+}
+
+/**
+ * Copy the client headers the provider accepts.
+ * @param provider
+ * @param headers
+ */
+export const forwardedHeaders = (provider: StorageProvider, headers: Headers): Headers => {
+    const forwarded = new Headers()
+    for (const name of provider.forwardHeaders) {
+        const value = headers.get(name)
+        if (value) forwarded.set(name, value)
+    }
+    return forwarded
+}
+
+/**
+ * Read an origin error response the way the provider formats it. Consumes
+ * the body.
+ * @param provider
+ * @param response
+ */
+export const interpretOriginError = async (provider: StorageProvider, response: Response): Promise<OriginError> => {
+    const body = await response.text().catch(() => '')
+    let code = ''
+    let message = body.slice(0, 200)
+
+    // B2's native API answers in JSON, its S3-compatible API in XML
+    const isJson = (response.headers.get('content-type') || '').includes('json')
+
+    if (provider.errorFormat === 'b2' && isJson) {
+        try {
+            const parsed = JSON.parse(body)
+            code = String(parsed.code || '')
+            message = String(parsed.message || '')
+        } catch (e) {
+            // not JSON after all, keep the raw text
+        }
+    } else if (provider.errorFormat !== 'text') {
+        code = /<Code>([^<]*)<\/Code>/.exec(body)?.[1] || ''
+        message = /<Message>([^<]*)<\/Message>/.exec(body)?.[1] || message
+    }
+
+    return {
+        status: response.status,
+        code,
+        message,
+        retryable: response.status >= 500 || RETRYABLE_CODES.has(code)
+    }
+}
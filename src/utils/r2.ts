@@ -0,0 +1,121 @@
+/**
+ * R2 Bindings - Serves payloads that name a bucket binding and key
+ *
+ * Files in our own R2 buckets don't need a presigned URL: the object is
+ * read and written through the bucket binding, with ranges, conditionals
+ * and HTTP metadata mapped onto the R2 API.
+ */
+
+import { formatContentRange, parseRange, resolveRange } from './range'
+
+/**
+ * Look up a bucket binding by name, ignoring bindings that aren't buckets.
+ * @param env
+ * @param name
+ */
+export const resolveBucket = (env: Env, name: string): R2Bucket | null => {
+    const binding = (env as unknown as Record<string, unknown>)[name] as R2Bucket | undefined
+    if (!binding || typeof binding.head !== 'function' || typeof binding.put !== 'function') {
+        return null
+    }
+    return binding
+}
+
+const objectHeaders = (object: R2Object) => {
+    const headers = new Headers()
+    object.writeHttpMetadata(headers)
+    headers.set('etag', object.httpEtag)
+    headers.set('last-modified', object.uploaded.toUTCString())
+    headers.set('accept-ranges', 'bytes')
+    return headers
+}
+
+/**
+ * Serve a GET for an object, honoring Range and the conditional headers.
+ * @param bucket
+ * @param key
+ * @param requestHeaders
+ */
+export const getObject = async (bucket: R2Bucket, key: string, requestHeaders: Headers): Promise<Response> => {
+    // ranges are resolved against the size first so unsatisfiable ones get a proper 416
+    let range: R2Range | undefined
+    let total: number | null = null
+    const spec = parseRange(requestHeaders.get('range'))
+    if (spec) {
+        const head = await bucket.head(key)
+        if (!head) {
+            return new Response('File not found', { status: 404 })
+        }
+
+        total = head.size
+        const interval = resolveRange(spec, total)
+        if (!interval) {
+            return new Response(null, {
+                status: 416,
+                headers: { 'content-range': `bytes */${total}` }
+            })
+        }
+        range = { offset: interval.start, length: interval.end - interval.start + 1 }
+    }
+
+    const object = await bucket.get(key, { range, onlyIf: requestHeaders })
+    if (!object) {
+        return new Response('File not found', { status: 404 })
+    }
+
+    const headers = objectHeaders(object)
+
+    // without a body, one of the preconditions failed
+    if (!('body' in object)) {
+        const notModified = requestHeaders.has('if-none-match') || requestHeaders.has('if-modified-since')
+        return new Response(null, { status: notModified ? 304 : 412, headers })
+    }
+
+    if (range) {
+        const { offset, length } = range as { offset: number, length: number }
+        headers.set('content-range', formatContentRange({ start: offset, end: offset + length - 1 }, total ?? object.size))
+        headers.set('content-length', length.toString())
+        return new Response(object.body, { status: 206, headers })
+    }
+
+    headers.set('content-length', object.size.toString())
+    return new Response(object.body, { status: 200, headers })
+}
+
+/**
+ * Serve a HEAD for an object: its metadata and size, without a body.
+ * @param bucket
+ * @param key
+ */
+export const headObject = async (bucket: R2Bucket, key: string): Promise<Response> => {
+    const object = await bucket.head(key)
+    if (!object) {
+        return new Response(null, { status: 404 })
+    }
+
+    const headers = objectHeaders(object)
+    headers.set('content-length', object.size.toString())
+    return new Response(null, { status: 200, headers })
+}
+
+/**
+ * Store an upload body, keeping the client's content headers as the
+ * object's HTTP metadata.
+ * @param bucket
+ * @param key
+ * @param body
+ * @param requestHeaders
+ */
+export const putObject = async (
+    bucket: R2Bucket,
+    key: string,
+    body: ReadableStream<Uint8Array>,
+    requestHeaders: Headers
+): Promise<Response> => {
+    const object = await bucket.put(key, body, { httpMetadata: requestHeaders })
+
+    return new Response(null, {
+        status: 200,
+        headers: { 'etag': object!.httpEtag }
+    })
+}
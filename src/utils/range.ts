@@ -0,0 +1,170 @@
+/**
+ * A single byte range from a Range header. `end` is inclusive and null for
+ * open-ended ranges (`bytes=N-`). Suffix ranges (`bytes=-N`) have a null
+ * `start` and carry the suffix length instead.
+ */
+export interface RangeSpec {
+    start: number | null
+    end: number | null
+    suffix: number | null
+}
+
+/**
+ * A resolved byte interval, both ends inclusive.
+ */
+export interface ByteInterval {
+    start: number
+    end: number
+}
+
+export interface ContentRange {
+    start: number
+    end: number
+    total: number | null
+}
+
+/**
+ * Parse one `first-last`, `first-` or `-suffix` range spec.
+ * @param spec
+ */
+const parseRangeSpec = (spec: string): RangeSpec | null => {
+    const match = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec)
+    if (!match) return null
+
+    const [, first, last] = match
+    if (first === '' && last === '') return null
+
+    if (first === '') {
+        const suffix = Number(last)
+        return suffix > 0 ? { start: null, end: null, suffix } : null
+    }
+
+    const start = Number(first)
+    const end = last === '' ? null : Number(last)
+    if (end !== null && end < start) return null
+
+    return { start, end, suffix: null }
+}
+
+/**
+ * Parse a `Range: bytes=...` header with one or more ranges. Returns null
+ * for missing or malformed headers, or when any of the ranges is invalid.
+ * @param header
+ */
+export const parseRanges = (header: string | null | undefined): RangeSpec[] | null => {
+    if (!header) return null
+
+    const match = /^\s*bytes\s*=(.*)$/i.exec(header)
+    if (!match) return null
+
+    const specs = match[1].split(',').map(parseRangeSpec)
+    return specs.every((spec): spec is RangeSpec => spec !== null) ? specs : null
+}
+
+/**
+ * Parse a single-range `Range: bytes=...` header. Returns null for missing,
+ * malformed or multi-range headers, which callers pass through untouched.
+ * @param header
+ */
+export const parseRange = (header: string | null | undefined): RangeSpec | null => {
+    const specs = parseRanges(header)
+    return specs?.length === 1 ? specs[0] : null
+}
+
+/**
+ * Resolve a range against the file size. Returns null when the range is
+ * not satisfiable (416).
+ * @param spec
+ * @param total
+ */
+export const resolveRange = (spec: RangeSpec, total: number): ByteInterval | null => {
+    if (spec.suffix !== null) {
+        if (total === 0) return null
+        return { start: Math.max(0, total - spec.suffix), end: total - 1 }
+    }
+
+    const start = spec.start ?? 0
+    if (start >= total) return null
+
+    const end = spec.end === null ? total - 1 : Math.min(spec.end, total - 1)
+    return { start, end }
+}
+
+/**
+ * Resolve the ranges of a multi-range request against the file size:
+ * unsatisfiable ones are dropped, the rest sorted and merged where they
+ * overlap or touch. Empty when none of them can be satisfied (416).
+ * @param specs
+ * @param total
+ */
+export const resolveRanges = (specs: RangeSpec[], total: number): ByteInterval[] => {
+    const intervals = specs
+        .map(spec => resolveRange(spec, total))
+        .filter((interval): interval is ByteInterval => interval !== null)
+        .sort((a, b) => a.start - b.start)
+
+    const merged: ByteInterval[] = []
+    for (const interval of intervals) {
+        const last = merged[merged.length - 1]
+        if (last && interval.start <= last.end + 1) {
+            last.end = Math.max(last.end, interval.end)
+        } else {
+            merged.push({ ...interval })
+        }
+    }
+    return merged
+}
+
+/**
+ * Parse a `Content-Range: bytes start-end/total` response header.
+ * @param header
+ */
+export const parseContentRange = (header: string | null | undefined): ContentRange | null => {
+    if (!header) return null
+
+    const match = /^\s*bytes\s+(\d+)-(\d+)\/(\d+|\*)\s*$/i.exec(header)
+    if (!match) return null
+
+    return {
+        start: Number(match[1]),
+        end: Number(match[2]),
+        total: match[3] === '*' ? null : Number(match[3])
+    }
+}
+
+/**
+ * Read the file size from a `Content-Range` header, including the one
+ * without a range that comes with a 416.
+ * @param header
+ */
+export const parseContentRangeTotal = (header: string | null | undefined): number | null => {
+    const match = /^\s*bytes\s+(?:\d+-\d+|\*)\/(\d+)\s*$/i.exec(header || '')
+    return match ? Number(match[1]) : null
+}
+
+/**
+ * Format a `Range` request header for the given interval. A null end asks
+ * for everything from `start` onwards.
+ * @param start
+ * @param end
+ */
+export const formatRange = (start: number, end: number | null): string => {
+    return `bytes=${start}-${end === null ? '' : end}`
+}
+
+/**
+ * Format a `Range` request header for a single range spec.
+ * @param spec
+ */
+export const formatRangeSpec = (spec: RangeSpec): string => {
+    return spec.suffix !== null ? `bytes=-${spec.suffix}` : formatRange(spec.start ?? 0, spec.end)
+}
+
+/**
+ * Format a `Content-Range` response header.
+ * @param interval
+ * @param total
+ */
+export const formatContentRange = (interval: ByteInterval, total: number | null): string => {
+    return `bytes ${interval.start}-${interval.end}/${total === null ? '*' : total}`
+}
@@ -0,0 +1,129 @@
+/**
+ * Rate Limit - Token buckets per client IP, per file and per route
+ *
+ * Applied as router middleware in front of /download and /upload. Limits
+ * come from RATE_LIMITS, a JSON object (string var or JSON binding) of
+ * route to scope to bucket, replacing the defaults below:
+ *   { "download": { "ip": { "capacity": 120, "refillPerSecond": 2 },
+ *                   "file": { "capacity": 600, "refillPerSecond": 10 } } }
+ * Scopes are "ip" (per client IP), "file" (per urlHASH) and "route" (one
+ * bucket for the whole route). Multipart part uploads are limited as
+ * "upload-part" rather than "upload", so a large upload's many parts don't
+ * use up the bucket meant for starting uploads. Rejected requests get a 429
+ * and every limited response carries RateLimit-Limit / -Remaining / -Reset.
+ */
+
+import { IRequest } from 'itty-router'
+import type { BucketConfig, TakeResult } from '../rate-limiter'
+import { resolveClientIP } from './ip'
+
+export type RateLimitScope = 'ip' | 'file' | 'route'
+
+export type RateLimitConfig = Record<string, Partial<Record<RateLimitScope, BucketConfig>>>
+
+const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+    download: { ip: { capacity: 120, refillPerSecond: 2 } },
+    upload: { ip: { capacity: 30, refillPerSecond: 0.5 } },
+    'upload-part': { ip: { capacity: 200, refillPerSecond: 10 } }
+}
+
+const readRateLimits = (value: Env['RATE_LIMITS']): RateLimitConfig => {
+    if (!value) {
+        return DEFAULT_RATE_LIMITS
+    }
+
+    try {
+        return typeof value === 'string' ? JSON.parse(value) : value
+    } catch (e) {
+        console.error('Invalid RATE_LIMITS, using the default limits')
+        return DEFAULT_RATE_LIMITS
+    }
+}
+
+const takeToken = async (env: Env, key: string, bucket: BucketConfig): Promise<TakeResult | null> => {
+    try {
+        const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(key))
+        const response = await stub.fetch('https://rate-limiter.internal/take', {
+            method: 'POST',
+            body: JSON.stringify(bucket)
+        })
+        return await response.json<TakeResult>()
+    } catch (e) {
+        // a limiter we can't reach doesn't block traffic
+        return null
+    }
+}
+
+const rateLimitHeaders = (result: TakeResult): Record<string, string> => ({
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': result.reset.toString()
+})
+
+/**
+ * Router `before` middleware: take a token from every bucket the request
+ * falls into and answer 429 when one of them is empty.
+ * @param request
+ * @param env
+ */
+export const rateLimit = async (request: IRequest, env: Env): Promise<Response | undefined> => {
+    // route params aren't parsed yet, the path is /<route>/<urlHASH>/...
+    const [path, urlHASH, ...rest] = new URL(request.url).pathname.split('/').filter(Boolean)
+    // PUT /upload/<urlHASH>/multipart/<uploadId>/<partNumber>
+    const partUpload = path === 'upload' && request.method === 'PUT' && rest[0] === 'multipart' && rest.length === 3
+    const route = partUpload ? 'upload-part' : path
+    const limits = route ? readRateLimits(env.RATE_LIMITS)[route] : undefined
+    if (!limits || !urlHASH) {
+        return
+    }
+
+    const subjects: Record<RateLimitScope, string> = {
+        ip: resolveClientIP(request.headers, env),
+        file: urlHASH,
+        route: '*'
+    }
+
+    const scopes = (Object.keys(limits) as RateLimitScope[]).filter(scope => scope in subjects)
+    const results = await Promise.all(scopes.map(scope => {
+        return takeToken(env, `${route}:${scope}:${subjects[scope]}`, limits[scope]!)
+    }))
+
+    // report the tightest bucket: a rejecting one, otherwise the one with the fewest tokens left
+    const taken = results.filter((result): result is TakeResult => result !== null)
+    const tightest = taken.find(result => !result.allowed) ||
+        taken.sort((a, b) => a.remaining - b.remaining)[0]
+    if (!tightest) {
+        return
+    }
+
+    request.rateLimit = tightest
+
+    if (!tightest.allowed) {
+        console.error(`[RATELIMIT] ${route} ${subjects.ip} rejected, retry in ${tightest.retryAfter}s`)
+        return new Response('Too many requests', {
+            status: 429,
+            headers: {
+                ...rateLimitHeaders(tightest),
+                'Retry-After': (tightest.retryAfter ?? 1).toString()
+            }
+        })
+    }
+}
+
+/**
+ * Router `finally` handler: add the RateLimit-* headers to allowed responses.
+ * @param response
+ * @param request
+ */
+export const withRateLimitHeaders = (response: Response, request: IRequest): Response => {
+    const result: TakeResult | undefined = request.rateLimit
+    if (!result || !result.allowed || response.status === 101) {
+        return response
+    }
+
+    const limited = new Response(response.body, response)
+    for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+        limited.headers.set(name, value)
+    }
+    return limited
+}
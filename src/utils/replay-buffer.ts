@@ -0,0 +1,153 @@
+/**
+ * ReplayBuffer - Keeps the bytes a coalescing session has already broadcast
+ *
+ * Late joiners need everything from the start of the response, not just
+ * the chunks that arrive after they connected. The buffer keeps chunks in
+ * memory up to `memoryLimit` bytes and then spills further chunks to DO
+ * storage up to `spillLimit` bytes. Once both are exhausted the buffer is
+ * marked as overflowed and late joiners can no longer be served from it.
+ * A spilled chunk that fails to store marks the buffer as overflowed too,
+ * so a replay never silently skips it.
+ */
+
+// DO storage rejects values larger than 128 KiB
+const MAX_STORAGE_VALUE_BYTES = 128 * 1024
+
+export interface ReplayBufferOptions {
+    storage: DurableObjectStorage
+    prefix: string
+    memoryLimit: number
+    spillLimit: number
+}
+
+export class ReplayBuffer {
+    private storage: DurableObjectStorage
+    private prefix: string
+    private memoryLimit: number
+    private spillLimit: number
+
+    private memoryChunks: Uint8Array[] = []
+    private memoryBytes = 0
+    private spillKeys: string[] = []
+    private spillBytes = 0
+    private activeReplays = 0
+
+    overflowed = false
+
+    constructor(options: ReplayBufferOptions) {
+        this.storage = options.storage
+        this.prefix = options.prefix
+        this.memoryLimit = options.memoryLimit
+        this.spillLimit = options.spillLimit
+    }
+
+    /**
+     * Total number of bytes currently replayable.
+     */
+    get size(): number {
+        return this.memoryBytes + this.spillBytes
+    }
+
+    /**
+     * Bytes held in memory, spilled chunks not included.
+     */
+    get memorySize(): number {
+        return this.memoryBytes
+    }
+
+    /**
+     * Number of chunks currently replayable. Used as a snapshot marker so a
+     * replay never includes chunks that were also delivered live.
+     */
+    get chunkCount(): number {
+        return this.memoryChunks.length + this.spillKeys.length
+    }
+
+    append(chunk: Uint8Array): void {
+        if (this.overflowed) return
+
+        if (this.spillBytes === 0 && this.memoryBytes + chunk.byteLength <= this.memoryLimit) {
+            this.memoryChunks.push(chunk)
+            this.memoryBytes += chunk.byteLength
+            return
+        }
+
+        if (this.spillBytes + chunk.byteLength > this.spillLimit) {
+            this.markOverflowed()
+            return
+        }
+
+        // Spilled chunks are transient, so skip the output gate and the storage cache
+        for (let offset = 0; offset < chunk.byteLength; offset += MAX_STORAGE_VALUE_BYTES) {
+            const key = `${this.prefix}:${this.spillKeys.length.toString().padStart(8, '0')}`
+            const piece = chunk.slice(offset, offset + MAX_STORAGE_VALUE_BYTES)
+            this.storage.put(key, piece, { allowUnconfirmed: true, noCache: true }).catch(error => {
+                console.error(`[COALESCE:SPILL] ${key} could not be stored, no longer replaying:`, (error as Error).message)
+                if (!this.overflowed) this.markOverflowed()
+            })
+            this.spillKeys.push(key)
+            this.spillBytes += piece.byteLength
+        }
+    }
+
+    /**
+     * Yield the first `chunkCount` chunks in order, reading spilled chunks
+     * back from storage as needed.
+     * @param chunkCount
+     */
+    async *replay(chunkCount: number = this.chunkCount): AsyncGenerator<Uint8Array> {
+        this.activeReplays++
+        try {
+            const fromMemory = Math.min(chunkCount, this.memoryChunks.length)
+            const memoryChunks = this.memoryChunks.slice(0, fromMemory)
+            const spillKeys = this.spillKeys.slice(0, chunkCount - fromMemory)
+
+            for (const chunk of memoryChunks) {
+                yield chunk
+            }
+
+            for (const key of spillKeys) {
+                const chunk = await this.storage.get<Uint8Array>(key)
+                if (!chunk) {
+                    throw new Error('Replay buffer chunk missing from storage')
+                }
+                yield chunk
+            }
+        } finally {
+            this.activeReplays--
+            if (this.overflowed && this.activeReplays === 0) {
+                this.release().catch(() => {})
+            }
+        }
+    }
+
+    /**
+     * Drop every buffered chunk, including those spilled to storage.
+     */
+    async clear(): Promise<void> {
+        this.overflowed = true
+        if (this.activeReplays === 0) {
+            await this.release()
+        }
+    }
+
+    private markOverflowed(): void {
+        this.overflowed = true
+        if (this.activeReplays === 0) {
+            this.release().catch(() => {})
+        }
+    }
+
+    private async release(): Promise<void> {
+        const keys = this.spillKeys
+        this.memoryChunks = []
+        this.memoryBytes = 0
+        this.spillKeys = []
+        this.spillBytes = 0
+
+        // storage.delete accepts at most 128 keys per call
+        for (let i = 0; i < keys.length; i += 128) {
+            await this.storage.delete(keys.slice(i, i + 128))
+        }
+    }
+}
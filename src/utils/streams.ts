@@ -0,0 +1,116 @@
+/**
+ * Streams - Helpers for shaping response bodies
+ */
+
+// Pacing works in slices of about a tenth of a second of data
+const SLICES_PER_SECOND = 10
+const MIN_SLICE_BYTES = 1024
+
+/**
+ * A transform that lets bytes through at most at the given rate. Chunks are
+ * cut into small slices so the pace stays smooth instead of bursting.
+ * @param bytesPerSecond
+ */
+export const throttleStream = (bytesPerSecond: number): TransformStream<Uint8Array, Uint8Array> => {
+    const sliceSize = Math.max(MIN_SLICE_BYTES, Math.floor(bytesPerSecond / SLICES_PER_SECOND))
+    let startedAt: number | null = null
+    let sent = 0
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+        async transform(chunk, controller) {
+            startedAt ??= Date.now()
+
+            for (let offset = 0; offset < chunk.byteLength; offset += sliceSize) {
+                const due = startedAt + (sent / bytesPerSecond) * 1000
+                const wait = due - Date.now()
+                if (wait > 0) {
+                    await new Promise(resolve => setTimeout(resolve, wait))
+                }
+
+                const slice = chunk.subarray(offset, offset + sliceSize)
+                controller.enqueue(slice)
+                sent += slice.byteLength
+            }
+        }
+    })
+}
+
+/**
+ * Pace a response body to the given rate (0 leaves it alone), keeping its
+ * Content-Length.
+ * @param response
+ * @param bytesPerSecond
+ */
+export const throttleResponse = (response: Response, bytesPerSecond: number): Response => {
+    if (bytesPerSecond <= 0 || !response.body) {
+        return response
+    }
+
+    let body = response.body.pipeThrough(throttleStream(bytesPerSecond))
+
+    const length = Number(response.headers.get('content-length'))
+    if (response.headers.has('content-length') && Number.isSafeInteger(length)) {
+        body = body.pipeThrough(new FixedLengthStream(length))
+    }
+
+    return new Response(body, response)
+}
+
+export type BodyEnd = 'done' | 'cancelled' | 'error'
+
+export interface BodyWatcher {
+    onChunk?: (bytes: number) => void
+    // Called once, however the body ends
+    onEnd: (end: BodyEnd) => void
+}
+
+/**
+ * Follow a response body as the client reads it: every chunk handed out,
+ * and whether it was read to the end, cancelled by the client or failed.
+ * Keeps the Content-Length.
+ * @param response
+ * @param watcher
+ */
+export const watchBody = (response: Response, watcher: BodyWatcher): Response => {
+    if (!response.body) {
+        watcher.onEnd('done')
+        return response
+    }
+
+    let ended = false
+    const end = (how: BodyEnd) => {
+        if (ended) return
+        ended = true
+        watcher.onEnd(how)
+    }
+
+    const reader = response.body.getReader()
+    let body: ReadableStream<Uint8Array> = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read()
+                if (done) {
+                    end('done')
+                    controller.close()
+                    return
+                }
+                watcher.onChunk?.(value.byteLength)
+                controller.enqueue(value)
+            } catch (e) {
+                end('error')
+                controller.error(e)
+            }
+        },
+        cancel(reason) {
+            end('cancelled')
+            return reader.cancel(reason)
+        }
+    })
+
+    const length = Number(response.headers.get('content-length'))
+    if (response.headers.has('content-length') && Number.isSafeInteger(length)) {
+        body = body.pipeThrough(new FixedLengthStream(length))
+    }
+
+    return new Response(body, response)
+}
@@ -0,0 +1,71 @@
+/**
+ * Tiers - Download speed per account type
+ *
+ * XFS sells premium accounts with faster downloads. The signed token or
+ * the encrypted payload names a tier (or an explicit bytes-per-second
+ * limit) and the response is paced to it. A tier can also cap how many
+ * downloads a user (or IP) has open at once. Tiers come from TIERS, a JSON
+ * object (string var or JSON binding) replacing the defaults below:
+ *   { "free": { "bytesPerSecond": 524288, "maxConnections": 2 }, "premium": {} }
+ * Missing limits, an unknown tier, or none at all mean no limit.
+ */
+
+import { OriginPayload } from './payload'
+import { TokenClaims } from './token'
+
+export interface TierConfig {
+    bytesPerSecond?: number
+    maxConnections?: number
+}
+
+export type TiersConfig = Record<string, TierConfig>
+
+export interface Tier {
+    name: string
+    // 0 means unthrottled
+    bytesPerSecond: number
+    // 0 means unlimited
+    maxConnections: number
+}
+
+const DEFAULT_TIERS: TiersConfig = {
+    free: { bytesPerSecond: 512 * 1024, maxConnections: 2 },
+    premium: {}
+}
+
+const readTiers = (value: Env['TIERS']): TiersConfig => {
+    if (!value) {
+        return DEFAULT_TIERS
+    }
+
+    try {
+        return typeof value === 'string' ? JSON.parse(value) : value
+    } catch (e) {
+        console.error('Invalid TIERS, using the default tiers')
+        return DEFAULT_TIERS
+    }
+}
+
+const validRate = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/**
+ * Work out the tier a download is served at. The token is issued per user,
+ * so its claims win over the payload.
+ * @param env
+ * @param payload
+ * @param claims
+ */
+export const resolveTier = (env: Env, payload: OriginPayload, claims?: TokenClaims): Tier => {
+    const name = claims?.tier ?? payload.tier ?? 'default'
+
+    const config = readTiers(env.TIERS)[name] || {}
+    const rate = [claims?.bps, payload.bytesPerSecond, config.bytesPerSecond].find(validRate)
+
+    return {
+        name,
+        bytesPerSecond: rate ?? 0,
+        maxConnections: validRate(config.maxConnections) ? config.maxConnections : 0
+    }
+}
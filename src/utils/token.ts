@@ -0,0 +1,153 @@
+/**
+ * Signed Tokens - Expiring, path-bound access tokens with key rotation
+ *
+ * Format: `<payload>.<signature>`, both base64url. The payload is JSON:
+ *   { "kid": key ID, "exp": expiry in unix seconds, "ip": IP or CIDR prefix,
+ *     "sub": user ID, "tier": download speed tier, "bps": bytes per second limit }
+ * The signature is HMAC-SHA256 over `<payload>.<urlHASH>` with the secret
+ * named by `kid`, so a token only works for the file it was issued for.
+ *
+ * Secrets come from SIGNING_KEYS, a JSON object of key ID to secret, so
+ * old and new keys can both be active while rotating. SECRET is always
+ * accepted under the key ID "default".
+ */
+
+import { base64UrlDecode, base64UrlEncode } from './index'
+import { ipInPrefix } from './ip'
+
+export type TokenErrorCode = 'malformed' | 'expired' | 'unknown_key' | 'mismatch' | 'ip_mismatch'
+
+export interface TokenClaims {
+    kid: string
+    exp: number
+    ip?: string
+    // User the download counts against for connection limits
+    sub?: string
+    // Per-user download speed, see utils/tiers
+    tier?: string
+    bps?: number
+}
+
+export type TokenResult =
+    | { ok: true, claims: TokenClaims }
+    | { ok: false, code: TokenErrorCode }
+
+/**
+ * HTTP status for each verification failure. Signature mismatches keep the
+ * 405 the legacy IP signature check has always returned.
+ */
+export const tokenErrorStatus: Record<TokenErrorCode, number> = {
+    malformed: 400,
+    unknown_key: 401,
+    expired: 403,
+    mismatch: 405,
+    ip_mismatch: 405
+}
+
+/**
+ * Read the active signing secrets, keyed by key ID. A Map, so a key ID
+ * like "constructor" can't pick up anything from Object.prototype, and
+ * only string secrets make it in.
+ * @param env
+ */
+export const getSigningKeys = (env: Env): Map<string, string> => {
+    const keys = new Map<string, string>([['default', env.SECRET]])
+    if (env.SIGNING_KEYS) {
+        try {
+            const configured: unknown = JSON.parse(env.SIGNING_KEYS)
+            for (const [kid, secret] of Object.entries(configured ?? {})) {
+                if (typeof secret === 'string') {
+                    keys.set(kid, secret)
+                } else {
+                    console.error(`SIGNING_KEYS secret for "${kid}" is not a string, ignoring it`)
+                }
+            }
+        } catch (e) {
+            console.error('SIGNING_KEYS is not valid JSON, ignoring it')
+        }
+    }
+    return keys
+}
+
+const importKey = (secret: string, usage: 'sign' | 'verify') => {
+    return crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' },
+        false, [usage]
+    )
+}
+
+/**
+ * Issue a token for the given urlHASH, signed with SIGNING_KEY_ID (or the
+ * "default" key). Mainly useful for tests and tooling, XFS issues its own.
+ * @param claims
+ * @param urlHASH
+ * @param env
+ */
+export async function createToken(claims: Omit<TokenClaims, 'kid'>, urlHASH: string, env: Env) {
+    const kid = env.SIGNING_KEY_ID || 'default'
+    const secret = getSigningKeys(env).get(kid)
+    if (!secret) {
+        throw new Error(`Unknown signing key "${kid}"`)
+    }
+
+    const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify({ ...claims, kid })))
+    const key = await importKey(secret, 'sign')
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${payload}.${urlHASH}`))
+
+    return `${payload}.${base64UrlEncode(signature)}`
+}
+
+/**
+ * Verify a token for the given urlHASH. The IP claim is only checked when
+ * a client IP is passed in.
+ * @param token
+ * @param target
+ * @param env
+ * @param now
+ */
+export async function verifyToken(
+    token: string,
+    target: { urlHASH: string, ip?: string },
+    env: Env,
+    now: number = Date.now()
+): Promise<TokenResult> {
+    const [payload, signature, ...rest] = token.split('.')
+    if (!payload || !signature || rest.length > 0) {
+        return { ok: false, code: 'malformed' }
+    }
+
+    let claims: TokenClaims
+    let signatureBytes: Uint8Array
+    try {
+        claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)))
+        signatureBytes = base64UrlDecode(signature)
+    } catch (e) {
+        return { ok: false, code: 'malformed' }
+    }
+
+    if (typeof claims?.kid !== 'string' || typeof claims.exp !== 'number') {
+        return { ok: false, code: 'malformed' }
+    }
+
+    const secret = getSigningKeys(env).get(claims.kid)
+    if (typeof secret !== 'string' || !secret) {
+        return { ok: false, code: 'unknown_key' }
+    }
+
+    // crypto.subtle.verify compares in constant time
+    const key = await importKey(secret, 'verify')
+    const valid = await crypto.subtle.verify('HMAC', key, signatureBytes, new TextEncoder().encode(`${payload}.${target.urlHASH}`))
+    if (!valid) {
+        return { ok: false, code: 'mismatch' }
+    }
+
+    if (claims.exp * 1000 <= now) {
+        return { ok: false, code: 'expired' }
+    }
+
+    if (target.ip !== undefined && (!claims.ip || !ipInPrefix(target.ip, claims.ip))) {
+        return { ok: false, code: 'ip_mismatch' }
+    }
+
+    return { ok: true, claims }
+}
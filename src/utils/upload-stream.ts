@@ -0,0 +1,104 @@
+/**
+ * Upload Stream - Streams a client upload body straight to the origin
+ *
+ * The body is never buffered in the worker. The declared Content-Length is
+ * passed through (origins need it for a streamed PUT) and enforced while
+ * the bytes flow, so oversized bodies are cut off instead of forwarded.
+ */
+
+import { IRequest, status } from 'itty-router'
+import { ChecksumVerifier } from './checksum'
+import { readNumber } from './config'
+
+// S3-compatible origins accept at most 5 GiB in a single PUT
+const DEFAULT_MAX_UPLOAD_BYTES = 5 * 1024 * 1024 * 1024
+
+export interface UploadStream {
+    body: ReadableStream<Uint8Array>
+    length: number
+    received: () => number
+}
+
+/**
+ * Check the declared upload size against MAX_UPLOAD_BYTES. Returns the
+ * length, or an error response to send back.
+ * @param request
+ * @param env
+ */
+export const readUploadLength = (request: IRequest, env: Env): number | Response => {
+    // uploads are streamed straight through, so the size has to be known up front
+    const contentLength = request.headers.get('content-length')
+    if (contentLength === null) {
+        return status(411)
+    }
+
+    const length = Number(contentLength)
+    if (!Number.isSafeInteger(length) || length <= 0 || !request.body) {
+        return status(400)
+    }
+
+    const maxBytes = readNumber(env.MAX_UPLOAD_BYTES, DEFAULT_MAX_UPLOAD_BYTES)
+    if (maxBytes > 0 && length > maxBytes) {
+        return status(413)
+    }
+
+    return length
+}
+
+/**
+ * Wrap the client body in a fixed-length stream that counts bytes as they
+ * stream and stops anything beyond the declared length, optionally
+ * verifying checksums on the way.
+ * @param body
+ * @param length
+ * @param verifier
+ */
+export const streamUploadBody = (body: ReadableStream<Uint8Array>, length: number, verifier?: ChecksumVerifier): UploadStream => {
+    let received = 0
+    const limiter = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.byteLength
+            if (received > length) {
+                controller.error(new Error('Upload exceeds the declared Content-Length'))
+                return
+            }
+            controller.enqueue(chunk)
+        }
+    })
+
+    const { readable, writable } = new FixedLengthStream(length + (verifier?.extraBytes ?? 0))
+    const limited = body.pipeThrough(limiter)
+    const stream = verifier ? limited.pipeThrough(verifier.transform) : limited
+    stream.pipeTo(writable).catch(() => {
+        // the upload fetch fails with the same error
+    })
+
+    return { body: readable, length, received: () => received }
+}
+
+/**
+ * Pick the status for an upload fetch that threw: 413 for oversized bodies,
+ * 499 when the client went away mid-upload, 504/502 for origin trouble.
+ * @param uploadError
+ * @param upload
+ */
+export const uploadFailureStatus = (uploadError: unknown, upload: UploadStream): number => {
+    const error = uploadError as Error
+    const received = upload.received()
+
+    if (received > upload.length) {
+        return 413
+    }
+
+    // the only signal on an upload fetch is its timeout, and not every fetch rejects with the signal's TimeoutError
+    const timedOut = error?.name === 'TimeoutError' || error?.name === 'AbortError'
+
+    // the client went away before sending the whole body
+    if (received < upload.length && !timedOut) {
+        console.error(`Upload aborted by client after ${received} of ${upload.length} bytes`)
+        return 499
+    }
+
+    console.error('Upload to origin failed:', error?.message)
+    return timedOut ? 504 : 502
+}
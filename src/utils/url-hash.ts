@@ -0,0 +1,114 @@
+/**
+ * URL Hash - Versioned, authenticated encoding of the origin URL
+ *
+ * Current format (base64url):
+ *   [version: 1 byte][iv: 12 bytes][AES-256-GCM ciphertext + 16-byte tag]
+ * - version 0x02: no associated data
+ * - version 0x03: the route name ("download", "upload") is the associated
+ *   data, so a hash issued for one route is rejected by the others
+ * The key is the full SHA-256 digest of SECRET and every hash gets a
+ * random IV, so identical URLs give different hashes and any tampering
+ * fails the tag check.
+ *
+ * Legacy hashes (AES-CBC with the static IV_SECRET IV, no version byte)
+ * are still accepted until LEGACY_HASH_CUTOFF, so existing XFS links keep
+ * working while the script switches over.
+ */
+
+import { base64UrlDecode, base64UrlEncode, decrypt } from './index'
+
+export const URL_HASH_VERSION = 0x02
+export const URL_HASH_VERSION_ROUTE_BOUND = 0x03
+
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+export type UrlHashRoute = 'download' | 'upload'
+
+const getGcmKey = async (secret: string, usage: 'encrypt' | 'decrypt') => {
+    const keyBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret))
+    return crypto.subtle.importKey('raw', keyBuffer, { name: 'AES-GCM' }, false, [usage])
+}
+
+/**
+ * Whether legacy AES-CBC hashes are still accepted. LEGACY_HASH_CUTOFF is
+ * an ISO date or unix seconds; unset means no cutoff. A cutoff that can't
+ * be parsed is a config error and rejects them, rather than never cutting off.
+ * @param env
+ * @param now
+ */
+export const legacyHashesAllowed = (env: Env, now: number = Date.now()): boolean => {
+    const cutoff = env.LEGACY_HASH_CUTOFF?.trim()
+    if (!cutoff) return true
+
+    const cutoffTime = /^\d+$/.test(cutoff) ? Number(cutoff) * 1000 : Date.parse(cutoff)
+    if (Number.isNaN(cutoffTime)) {
+        console.error(`Invalid LEGACY_HASH_CUTOFF ${JSON.stringify(cutoff)}, rejecting legacy URL hashes`)
+        return false
+    }
+
+    return now < cutoffTime
+}
+
+/**
+ * Encrypt a URL into the current hash format.
+ * @param content
+ * @param secret
+ * @param route bind the hash to this route
+ */
+export const encryptUrlHash = async (content: string, secret: string, route?: UrlHashRoute) => {
+    const key = await getGcmKey(secret, 'encrypt')
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const additionalData = route ? new TextEncoder().encode(route) : undefined
+
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, ...(additionalData && { additionalData }) },
+        key,
+        new TextEncoder().encode(content)
+    )
+
+    const output = new Uint8Array(1 + IV_LENGTH + ciphertext.byteLength)
+    output[0] = route ? URL_HASH_VERSION_ROUTE_BOUND : URL_HASH_VERSION
+    output.set(iv, 1)
+    output.set(new Uint8Array(ciphertext), 1 + IV_LENGTH)
+
+    return base64UrlEncode(output)
+}
+
+/**
+ * Decode a urlHASH from the request path, in either the current or the
+ * legacy format. Throws if it can't be decrypted.
+ * @param urlHASH
+ * @param env
+ * @param route
+ */
+export const decodeUrlHash = async (urlHASH: string, env: Env, route: UrlHashRoute) => {
+    let bytes = new Uint8Array(0)
+    try {
+        bytes = base64UrlDecode(urlHASH)
+    } catch (e) {
+        // Not valid base64url, only the legacy decoder can still make sense of it
+    }
+    const version = bytes[0]
+
+    if ((version === URL_HASH_VERSION || version === URL_HASH_VERSION_ROUTE_BOUND) && bytes.length >= 1 + IV_LENGTH + TAG_LENGTH) {
+        try {
+            const key = await getGcmKey(env.SECRET, 'decrypt')
+            const additionalData = version === URL_HASH_VERSION_ROUTE_BOUND ? new TextEncoder().encode(route) : undefined
+            const decrypted = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: bytes.slice(1, 1 + IV_LENGTH), ...(additionalData && { additionalData }) },
+                key,
+                bytes.slice(1 + IV_LENGTH)
+            )
+            return new TextDecoder().decode(decrypted)
+        } catch (e) {
+            // A legacy CBC hash can start with a version byte by chance, so fall through
+        }
+    }
+
+    if (!legacyHashesAllowed(env)) {
+        throw new Error('Legacy URL hashes are no longer accepted')
+    }
+
+    return decrypt(urlHASH.replace(/-/g, '+').replace(/_/g, '/'), env.SECRET, env.IV_SECRET)
+}
@@ -0,0 +1,69 @@
+/**
+ * Usage - Meters the bytes each download actually delivers
+ *
+ * Counting happens on the stream handed to the client, so partial and
+ * aborted downloads are counted as far as they got, whichever path
+ * (direct, coalesced, cache, bucket) produced the response. Totals are
+ * kept and reported by the UsageAccumulator DO. Accounting is off unless
+ * USAGE_QUEUE or USAGE_WEBHOOK_URL is configured.
+ */
+
+import type { UsageEvent } from '../usage-accumulator'
+import { readNumber } from './config'
+import { watchBody } from './streams'
+
+const DEFAULT_USAGE_SHARDS = 4
+
+export const usageEnabled = (env: Env): boolean => {
+    return Boolean(env.USAGE_QUEUE || env.USAGE_WEBHOOK_URL)
+}
+
+/**
+ * Send one finished download to an accumulator shard.
+ * @param env
+ * @param event
+ */
+export const recordUsage = async (env: Env, event: UsageEvent): Promise<void> => {
+    const shards = Math.max(1, readNumber(env.USAGE_SHARDS, DEFAULT_USAGE_SHARDS))
+    const shard = Math.floor(Math.random() * shards)
+
+    try {
+        const stub = env.USAGE_ACCUMULATOR.get(env.USAGE_ACCUMULATOR.idFromName(`usage-${shard}`))
+        const response = await stub.fetch('https://usage-accumulator.internal/record', {
+            method: 'POST',
+            body: JSON.stringify({ events: [event] })
+        })
+        await response.body?.cancel()
+    } catch (error) {
+        console.error(`[USAGE:LOST] ${event.bytes} bytes of ${event.file} for ${event.user}:`, (error as Error).message)
+    }
+}
+
+/**
+ * Count the bytes of a download response as the client reads them and
+ * record the total once it is done, cancelled or broken off.
+ * @param response
+ * @param env
+ * @param ctx
+ * @param file
+ * @param user
+ */
+export const meterDownload = (
+    response: Response,
+    env: Env,
+    ctx: ExecutionContext,
+    file: string,
+    user: string
+): Response => {
+    if (!usageEnabled(env) || !response.ok || !response.body) {
+        return response
+    }
+
+    let bytes = 0
+    return watchBody(response, {
+        onChunk: size => { bytes += size },
+        onEnd: end => {
+            ctx.waitUntil(recordUsage(env, { file, user, bytes, complete: end === 'done' }))
+        }
+    })
+}
@@ -0,0 +1,91 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { circuitStatus, coalescerOverview, coalescerSessions } from '../src/routes/admin';
+import { checkAdmin } from '../src/utils/auth';
+import type { ActiveCoalescer, CoalescerStats } from '../src/coalescer-registry';
+import type { IRequest } from 'itty-router';
+
+const adminEnv = { ...(env as Env), ADMIN_SECRET: 'admin-secret' } as Env;
+
+interface CoalescerOverview {
+	totals: CoalescerStats;
+	activeCoalescers: number;
+	coalescers: (ActiveCoalescer & { sessions: unknown[] })[];
+}
+
+const adminRequest = (path: string, token?: string) => {
+	const request = new Request(`https://example.com${path}`, {
+		headers: token ? { authorization: `Bearer ${token}` } : {},
+	}) as unknown as IRequest;
+	request.query = Object.fromEntries(new URL(request.url).searchParams);
+	return request;
+};
+
+describe('checkAdmin', () => {
+	it('hides the admin routes without an admin secret', async () => {
+		expect((await checkAdmin(adminRequest('/admin/coalescer', 'admin-secret'), env as Env))?.status).toBe(404);
+	});
+
+	it('requires the admin bearer token', async () => {
+		expect((await checkAdmin(adminRequest('/admin/coalescer'), adminEnv))?.status).toBe(401);
+		expect((await checkAdmin(adminRequest('/admin/coalescer', 'wrong'), adminEnv))?.status).toBe(403);
+		expect(await checkAdmin(adminRequest('/admin/coalescer', 'admin-secret'), adminEnv)).toBeNull();
+	});
+});
+
+describe('coalescer admin', () => {
+	it('aggregates the counters reported to the registry', async () => {
+		const registry = adminEnv.COALESCER_REGISTRY.get(adminEnv.COALESCER_REGISTRY.idFromName('registry'));
+		const report = (body: object) => registry.fetch('https://coalescer-registry.internal/report', {
+			method: 'POST',
+			body: JSON.stringify(body),
+		});
+
+		await report({ key: 'https://f000.backblazeb2.com/file/a', sessions: 1 });
+		await report({ key: 'https://f000.backblazeb2.com/file/b', sessions: 1 });
+		await report({
+			key: 'https://f000.backblazeb2.com/file/b',
+			sessions: 0,
+			stats: { sessions: 1, clients: 3, savedRequests: 2, originBytes: 1024, detachedClients: 1 },
+		});
+
+		const response = await coalescerOverview(adminRequest('/admin/coalescer', 'admin-secret'), adminEnv);
+		const overview = await response.json<CoalescerOverview>();
+		expect(overview.totals).toEqual({ sessions: 1, clients: 3, savedRequests: 2, originBytes: 1024, detachedClients: 1 });
+		expect(overview.activeCoalescers).toBe(1);
+		expect(overview.coalescers[0]).toMatchObject({ key: 'https://f000.backblazeb2.com/file/a', sessions: [] });
+	});
+
+	it('lists the sessions of one coalescer', async () => {
+		const key = encodeURIComponent('https://f000.backblazeb2.com/file/a');
+		const response = await coalescerSessions(adminRequest(`/admin/coalescer/sessions?key=${key}`, 'admin-secret'), adminEnv);
+		expect(await response.json()).toMatchObject({
+			key: 'https://f000.backblazeb2.com/file/a',
+			sessions: [],
+			stats: { sessions: 0, clients: 0, savedRequests: 0, originBytes: 0, detachedClients: 0 },
+		});
+
+		const missingKey = await coalescerSessions(adminRequest('/admin/coalescer/sessions', 'admin-secret'), adminEnv);
+		expect(missingKey.status).toBe(400);
+	});
+});
+
+describe('circuit admin', () => {
+	const circuitRequest = (host: string, token?: string) => {
+		const request = adminRequest(`/admin/circuit/${host}`, token);
+		request.host = host;
+		return request;
+	};
+
+	it('reports the breaker of allowed origins to admins only', async () => {
+		expect((await circuitStatus(circuitRequest('f000.backblazeb2.com'), adminEnv)).status).toBe(401);
+
+		const response = await circuitStatus(circuitRequest('f000.backblazeb2.com', 'admin-secret'), adminEnv);
+		expect(await response.json()).toMatchObject({ host: 'f000.backblazeb2.com', state: 'closed' });
+	});
+
+	it('has no breaker for other hosts', async () => {
+		expect((await circuitStatus(circuitRequest('attacker.example.com', 'admin-secret'), adminEnv)).status).toBe(404);
+		expect((await circuitStatus(circuitRequest('f000.backblazeb2.com%2Fpath', 'admin-secret'), adminEnv)).status).toBe(404);
+	});
+});
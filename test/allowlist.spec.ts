@@ -0,0 +1,69 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import { checkOrigin, fetchOrigin } from '../src/utils/allowlist';
+import wrangler from '../wrangler.json';
+
+const testEnv = env as Env;
+
+describe('checkOrigin', () => {
+	it('blocks every origin without an allowlist', () => {
+		const unconfigured = { ...testEnv, ORIGIN_ALLOWLIST: undefined } as Env;
+		expect(checkOrigin(new URL('https://f000.backblazeb2.com/file/a'), unconfigured)).toBe('ORIGIN_ALLOWLIST is not configured');
+	});
+
+	it('allows the B2 hosts with the deployed configuration', () => {
+		const deployed = { ...testEnv, ORIGIN_ALLOWLIST: wrangler.vars.ORIGIN_ALLOWLIST } as Env;
+		expect(checkOrigin(new URL('https://f003.backblazeb2.com/file/a'), deployed)).toBeNull();
+		expect(checkOrigin(new URL('https://s3.eu-central-003.backblazeb2.com/bucket/a'), deployed)).toBeNull();
+		expect(checkOrigin(new URL('https://pod-000-1118-16.backblaze.com/b2api/v2/b2_upload_file/a/b'), deployed)).toBeNull();
+		expect(checkOrigin(new URL('https://169.254.169.254/latest/meta-data'), deployed)).toBe('host 169.254.169.254 not allowed');
+	});
+
+	it('allows the listed hosts over https', () => {
+		expect(checkOrigin(new URL('https://f000.backblazeb2.com/file/a'), testEnv)).toBeNull();
+		expect(checkOrigin(new URL('https://f001.backblazeb2.com/file/a'), testEnv)).toBe('host f001.backblazeb2.com not allowed');
+		expect(checkOrigin(new URL('https://169.254.169.254/latest/meta-data'), testEnv)).toBe('host 169.254.169.254 not allowed');
+		expect(checkOrigin(new URL('http://f000.backblazeb2.com/file/a'), testEnv)).toBe('scheme http: not allowed');
+		expect(checkOrigin(new URL('https://f000.backblazeb2.com:8443/file/a'), testEnv)).toBe('port 8443 not allowed');
+	});
+
+	it('uses the configured hosts, schemes and ports', () => {
+		const configured = {
+			...testEnv,
+			ORIGIN_ALLOWLIST: 'files.example.com, *.cdn.example.com',
+			ORIGIN_ALLOWED_SCHEMES: 'https,http',
+			ORIGIN_ALLOWED_PORTS: '8080',
+		} as Env;
+
+		expect(checkOrigin(new URL('http://files.example.com:8080/a'), configured)).toBeNull();
+		expect(checkOrigin(new URL('https://eu.cdn.example.com/a'), configured)).toBeNull();
+		expect(checkOrigin(new URL('https://f000.backblazeb2.com/file/a'), configured)).toBe('host f000.backblazeb2.com not allowed');
+		expect(checkOrigin(new URL('ftp://files.example.com/a'), configured)).toBe('scheme ftp: not allowed');
+	});
+});
+
+describe('fetchOrigin', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('follows redirects to allowed hosts only', async () => {
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path: '/file/a' })
+			.reply(302, '', { headers: { location: 'https://s3.us-west-004.backblazeb2.com/bucket/a' } });
+		fetchMock.get('https://s3.us-west-004.backblazeb2.com')
+			.intercept({ path: '/bucket/a' })
+			.reply(200, 'file');
+		const followed = await fetchOrigin('https://f000.backblazeb2.com/file/a', {}, testEnv);
+		expect(await followed.text()).toBe('file');
+
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path: '/file/b' })
+			.reply(302, '', { headers: { location: 'https://attacker.example.com/b' } });
+		const blocked = await fetchOrigin('https://f000.backblazeb2.com/file/b', {}, testEnv);
+		expect(blocked.status).toBe(403);
+	});
+});
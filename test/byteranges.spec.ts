@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { serveRanges } from '../src/utils/byteranges';
+import { parseRanges } from '../src/utils/range';
+
+const FILE = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+// Serves FILE like an origin that honors a single range
+const fileFetcher = (requests: string[] = []) => async (headers: Headers) => {
+	const range = headers.get('range');
+	requests.push(range ?? '');
+	const spec = parseRanges(range)?.[0];
+	if (!spec) {
+		return new Response(FILE, { headers: { etag: '"v1"', 'content-type': 'text/plain' } });
+	}
+
+	const start = spec.suffix !== null ? FILE.length - spec.suffix : spec.start!;
+	const end = Math.min(spec.end ?? FILE.length - 1, FILE.length - 1);
+	if (start >= FILE.length) {
+		return new Response(null, { status: 416, headers: { 'content-range': `bytes */${FILE.length}` } });
+	}
+	return new Response(FILE.slice(start, end + 1), {
+		status: 206,
+		headers: { etag: '"v1"', 'content-type': 'text/plain', 'content-range': `bytes ${start}-${end}/${FILE.length}` },
+	});
+};
+
+const request = (range: string) => new Headers({ range });
+
+describe('serveRanges', () => {
+	it('builds a multipart/byteranges body with a part per range', async () => {
+		const range = 'bytes=0-2,10-12,-3';
+		const response = await serveRanges(request(range), parseRanges(range)!, fileFetcher());
+
+		expect(response.status).toBe(206);
+		const boundary = /boundary=(\w+)/.exec(response.headers.get('content-type')!)![1];
+		const body = await response.text();
+		expect(body).toBe(
+			[
+				`\r\n--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-2/36\r\n\r\nabc`,
+				`\r\n--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 10-12/36\r\n\r\nklm`,
+				`\r\n--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 33-35/36\r\n\r\n789`,
+				`\r\n--${boundary}--\r\n`,
+			].join('')
+		);
+		expect(Number(response.headers.get('content-length'))).toBe(body.length);
+		expect(response.headers.get('content-range')).toBeNull();
+	});
+
+	it('merges overlapping and adjacent ranges into a single 206', async () => {
+		const requests: string[] = [];
+		const range = 'bytes=5-9,0-4,3-6';
+		const response = await serveRanges(request(range), parseRanges(range)!, fileFetcher(requests));
+
+		expect(response.status).toBe(206);
+		expect(response.headers.get('content-range')).toBe('bytes 0-9/36');
+		expect(await response.text()).toBe('abcdefghij');
+		expect(requests).toEqual(['bytes=5-9', 'bytes=0-9']);
+	});
+
+	it('answers 416 when no range can be satisfied', async () => {
+		const range = 'bytes=100-,200-300';
+		const response = await serveRanges(request(range), parseRanges(range)!, fileFetcher());
+
+		expect(response.status).toBe(416);
+		expect(response.headers.get('content-range')).toBe('bytes */36');
+	});
+
+	it('fails the body when the file changes between parts', async () => {
+		const fetcher = fileFetcher();
+		let calls = 0;
+		const changing = async (headers: Headers) => {
+			const response = await fetcher(headers);
+			if (calls++ === 0) return response;
+			const changed = new Headers(response.headers);
+			changed.set('etag', '"v2"');
+			return new Response(response.body, { status: response.status, headers: changed });
+		};
+
+		const range = 'bytes=0-2,10-12';
+		const response = await serveRanges(request(range), parseRanges(range)!, changing);
+		await expect(response.text()).rejects.toThrow('File changed during download');
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createChecksumVerifier, expectedChecksums } from '../src/utils/checksum';
+
+const body = new TextEncoder().encode('hello world');
+// sha1("hello world")
+const helloSha1 = '2aae6c35c94fcfb415dbe95f408b9ce91ee846ed';
+
+const run = async (verifier: ReturnType<typeof createChecksumVerifier>) => {
+	const stream = new Blob([body.slice(0, 5), body.slice(5)]).stream().pipeThrough(verifier.transform);
+	return new Response(stream).text();
+};
+
+describe('expectedChecksums', () => {
+	it('reads Content-MD5 and hex X-Bz-Content-Sha1', () => {
+		const headers = new Headers({
+			'content-md5': 'XrY7u+Ae7tCTyyK7j1rNww==',
+			'x-bz-content-sha1': helloSha1.toUpperCase(),
+		});
+		expect(expectedChecksums(headers, { url: 'https://example.com/a' })).toEqual({
+			'MD5': '5eb63bbbe01eeed093cb22bb8f5acdc3',
+			'SHA-1': helloSha1,
+		});
+	});
+
+	it('ignores B2 placeholders and prefers the payload', () => {
+		const headers = new Headers({ 'x-bz-content-sha1': 'do_not_verify' });
+		expect(expectedChecksums(headers, { url: 'https://example.com/a' })).toEqual({});
+		expect(expectedChecksums(new Headers({ 'x-bz-content-sha1': '0'.repeat(40) }), { url: 'https://example.com/a', sha1: helloSha1 }))
+			.toEqual({ 'SHA-1': helloSha1 });
+	});
+});
+
+describe('createChecksumVerifier', () => {
+	it('passes the body through and reports the digests', async () => {
+		const verifier = createChecksumVerifier(['SHA-1'], { 'SHA-1': helloSha1 });
+		expect(await run(verifier)).toBe('hello world');
+		expect(verifier.computed()['SHA-1']).toBe(helloSha1);
+		expect(verifier.mismatch()).toBeNull();
+	});
+
+	it('errors the stream on a mismatch', async () => {
+		const verifier = createChecksumVerifier(['SHA-1'], { 'SHA-1': '0'.repeat(40) });
+		await expect(run(verifier)).rejects.toThrow();
+		expect(verifier.mismatch()).toBe('SHA-1');
+	});
+
+	it('appends the SHA-1 hex for B2', async () => {
+		const verifier = createChecksumVerifier([], {}, true);
+		expect(verifier.extraBytes).toBe(40);
+		expect(await run(verifier)).toBe('hello world' + helloSha1);
+	});
+});
@@ -0,0 +1,81 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { acquireOrigin, getBreakerStatus, originOutcome, parseRetryAfter, reportOrigin } from '../src/utils/breaker';
+
+const testEnv = env as Env;
+
+describe('parseRetryAfter', () => {
+	it('reads seconds and HTTP dates', () => {
+		const now = Date.parse('2025-01-01T00:00:00Z');
+		expect(parseRetryAfter('120', now)).toBe(120);
+		expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30);
+		expect(parseRetryAfter('soon', now)).toBeUndefined();
+		expect(parseRetryAfter(null, now)).toBeUndefined();
+	});
+});
+
+describe('originOutcome', () => {
+	it('treats throttling and server errors as failures', () => {
+		expect(originOutcome(new Response(null, { status: 206 }))).toEqual({ ok: true, status: 206 });
+		expect(originOutcome(new Response(null, { status: 404 }))).toEqual({ ok: true, status: 404 });
+		expect(originOutcome(new Response(null, { status: 429, headers: { 'retry-after': '5' } })))
+			.toEqual({ ok: false, status: 429, retryAfter: 5 });
+		expect(originOutcome(null)).toEqual({ ok: false });
+	});
+});
+
+describe('CircuitBreaker', () => {
+	it('does not open on a single Retry-After', async () => {
+		const url = new URL('https://throttled.backblazeb2.com/file/a');
+		await reportOrigin(testEnv, url, { ok: false, status: 429, retryAfter: 60 });
+
+		expect((await getBreakerStatus(testEnv, url.host)).state).toBe('closed');
+		expect(await acquireOrigin(testEnv, url)).toEqual({ allowed: true });
+	});
+
+	it('waits for Retry-After once the error rate is reached and lets a probe close it again', async () => {
+		const url = new URL('https://retry-after.backblazeb2.com/file/a');
+		for (let i = 0; i < 20; i++) {
+			await reportOrigin(testEnv, url, { ok: false, status: 503, retryAfter: 0 });
+		}
+		expect((await getBreakerStatus(testEnv, url.host)).state).toBe('open');
+
+		// the cool-down is over, so one probe goes through while others wait
+		expect(await acquireOrigin(testEnv, url)).toEqual({ allowed: true, probe: true });
+		expect((await acquireOrigin(testEnv, url)).allowed).toBe(false);
+
+		await reportOrigin(testEnv, url, { ok: true, status: 200 });
+		expect((await getBreakerStatus(testEnv, url.host)).state).toBe('closed');
+	});
+
+	it('caps the cool-down an origin can ask for', async () => {
+		const url = new URL('https://retry-later.backblazeb2.com/file/a');
+		for (let i = 0; i < 20; i++) {
+			await reportOrigin(testEnv, url, { ok: false, status: 429, retryAfter: 86400 });
+		}
+
+		const status = await getBreakerStatus(testEnv, url.host);
+		expect(status.state).toBe('open');
+		expect(status.openUntil! - status.openedAt!).toBe(5 * 60 * 1000);
+	});
+
+	it('opens once the error rate is reached', async () => {
+		const url = new URL('https://error-rate.backblazeb2.com/file/a');
+		for (let i = 0; i < 10; i++) {
+			await reportOrigin(testEnv, url, { ok: true, status: 200 });
+		}
+		for (let i = 0; i < 9; i++) {
+			await reportOrigin(testEnv, url, { ok: false, status: 500 });
+		}
+		expect((await getBreakerStatus(testEnv, url.host)).state).toBe('closed');
+
+		await reportOrigin(testEnv, url, { ok: false, status: 500 });
+		const status = await getBreakerStatus(testEnv, url.host);
+		expect(status.state).toBe('open');
+		expect(status.failures).toBe(10);
+
+		const decision = await acquireOrigin(testEnv, url);
+		expect(decision.allowed).toBe(false);
+		expect(decision.retryAfter).toBeGreaterThan(0);
+	});
+});
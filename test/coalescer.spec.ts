@@ -0,0 +1,498 @@
+import { createExecutionContext, env, fetchMock, runDurableObjectAlarm, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import { ActiveCoalescer, CoalescerStats, EMPTY_STATS } from '../src/coalescer-registry';
+import { coalescedFetch } from '../src/utils/coalesced-fetch';
+
+const testEnv = env as Env;
+
+interface RegistryOverview {
+	totals: CoalescerStats;
+	coalescers: ActiveCoalescer[];
+}
+
+// What a coalescer's GET /admin/sessions answers
+interface SessionList {
+	sessions: { id: string; url: string; clients: number; bytesStreamed: number }[];
+	stats: CoalescerStats;
+}
+
+const FILE_SIZE = 1024 * 1024;
+
+const coalescer = (key: string) => testEnv.DOWNLOAD_COALESCER.get(testEnv.DOWNLOAD_COALESCER.idFromName(key));
+
+const mockOrigin = (path: string) => {
+	fetchMock.get('https://f000.backblazeb2.com')
+		.intercept({ path })
+		.reply(200, 'x'.repeat(FILE_SIZE), { headers: { 'content-length': FILE_SIZE.toString(), etag: '"v1"' } });
+};
+
+// Wait until the coalescer has no session left, i.e. the origin body was read to the end
+const sessionsClosed = async (key: string) => {
+	for (let i = 0; i < 100; i++) {
+		const response = await coalescer(key).fetch('https://coalescer.internal/admin/sessions');
+		const { sessions, stats } = await response.json<SessionList>();
+		if (sessions.length === 0) return stats;
+		await new Promise(resolve => setTimeout(resolve, 20));
+	}
+	throw new Error('session did not close');
+};
+
+describe('slow coalesced clients', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('ends the stream of a client that does not read', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/slow.bin';
+		mockOrigin('/file/bucket/slow.bin');
+
+		const streamUrl = new URL('https://coalescer.internal/stream');
+		streamUrl.searchParams.set('url', fileUrl);
+		const response = await coalescer(fileUrl).fetch(streamUrl.toString());
+		expect(response.status).toBe(200);
+		expect(response.headers.get('etag')).toBe('"v1"');
+
+		const stats = await sessionsClosed(fileUrl);
+		expect(stats.detachedClients).toBe(1);
+
+		const body = await response.arrayBuffer();
+		expect(body.byteLength).toBeGreaterThan(0);
+		expect(body.byteLength).toBeLessThan(FILE_SIZE);
+	});
+
+	it('fetches the rest of a detached body from the origin', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/detached.bin';
+		mockOrigin('/file/bucket/detached.bin');
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path: '/file/bucket/detached.bin', headers: { 'if-range': '"v1"' } })
+			.reply(options => {
+				const start = Number(/bytes=(\d+)-/.exec((options.headers as Record<string, string>)['range'])![1]);
+				return {
+					statusCode: 206,
+					data: 'x'.repeat(FILE_SIZE - start),
+					responseOptions: { headers: { 'content-range': `bytes ${start}-${FILE_SIZE - 1}/${FILE_SIZE}`, etag: '"v1"' } },
+				};
+			});
+
+		const ctx = createExecutionContext();
+		const response = await coalescedFetch({ url: fileUrl, env: testEnv, ctx });
+		await sessionsClosed(fileUrl);
+
+		const body = await response.text();
+		expect(body).toBe('x'.repeat(FILE_SIZE));
+		await waitOnExecutionContext(ctx);
+	});
+
+	it('retries the rest of a detached body after an origin error', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/retried.bin';
+		mockOrigin('/file/bucket/retried.bin');
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path: '/file/bucket/retried.bin', headers: { 'if-range': '"v1"' } })
+			.reply(503, 'busy');
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path: '/file/bucket/retried.bin', headers: { 'if-range': '"v1"' } })
+			.reply(options => {
+				const start = Number(/bytes=(\d+)-/.exec((options.headers as Record<string, string>)['range'])![1]);
+				return {
+					statusCode: 206,
+					data: 'x'.repeat(FILE_SIZE - start),
+					responseOptions: { headers: { 'content-range': `bytes ${start}-${FILE_SIZE - 1}/${FILE_SIZE}`, etag: '"v1"' } },
+				};
+			});
+
+		const ctx = createExecutionContext();
+		const response = await coalescedFetch({ url: fileUrl, env: testEnv, ctx });
+		await sessionsClosed(fileUrl);
+
+		expect(await response.text()).toBe('x'.repeat(FILE_SIZE));
+		await waitOnExecutionContext(ctx);
+	});
+
+	it('reports closed sessions to the registry from an alarm', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/reported.bin';
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path: '/file/bucket/reported.bin' })
+			.reply(200, 'x'.repeat(1000), { headers: { 'content-length': '1000', etag: '"v1"' } });
+
+		const streamUrl = new URL('https://coalescer.internal/stream');
+		streamUrl.searchParams.set('url', fileUrl);
+		streamUrl.searchParams.set('key', fileUrl);
+		const response = await coalescer(fileUrl).fetch(streamUrl.toString());
+		expect(await response.text()).toHaveLength(1000);
+		await sessionsClosed(fileUrl);
+
+		const registry = testEnv.COALESCER_REGISTRY.get(testEnv.COALESCER_REGISTRY.idFromName('registry'));
+		const totals = async () => (await (await registry.fetch('https://coalescer-registry.internal/')).json<RegistryOverview>()).totals;
+		expect(await totals()).toEqual(EMPTY_STATS);
+
+		expect(await runDurableObjectAlarm(coalescer(fileUrl))).toBe(true);
+		expect(await totals()).toEqual({ sessions: 1, clients: 1, savedRequests: 0, originBytes: 1000, detachedClients: 0 });
+	});
+
+	it('keeps a client paced below its backlog limit on the shared session', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/paced.bin';
+		mockOrigin('/file/bucket/paced.bin');
+
+		const streamUrl = new URL('https://coalescer.internal/stream');
+		streamUrl.searchParams.set('url', fileUrl);
+		streamUrl.searchParams.set('rate', '1024');
+		const response = await coalescer(fileUrl).fetch(streamUrl.toString());
+
+		const stats = await sessionsClosed(fileUrl);
+		expect(stats.detachedClients).toBe(0);
+		expect((await response.arrayBuffer()).byteLength).toBe(FILE_SIZE);
+	});
+});
+
+describe('paced clients', () => {
+	afterEach(() => vi.restoreAllMocks());
+
+	it('are detached once their backlogs pass the memory budget of the DO', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/budget.bin';
+
+		// An origin body the test feeds by hand, so both clients join before any byte arrives
+		let origin!: ReadableStreamDefaultController<Uint8Array>;
+		vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+			if (new URL(input instanceof Request ? input.url : input.toString()).host !== 'f000.backblazeb2.com') {
+				return new Response('{"allowed":true}');
+			}
+			const body = new ReadableStream<Uint8Array>({ start: controller => { origin = controller; } });
+			return new Response(body, { headers: { 'content-length': FILE_SIZE.toString(), etag: '"v1"' } });
+		});
+
+		const streamUrl = new URL('https://coalescer.internal/stream');
+		streamUrl.searchParams.set('url', fileUrl);
+		streamUrl.searchParams.set('rate', '1024');
+		const [first, second] = await Promise.all([
+			coalescer(fileUrl).fetch(streamUrl.toString()),
+			coalescer(fileUrl).fetch(streamUrl.toString()),
+		]);
+
+		// Neither client reads while the whole file arrives
+		for (let offset = 0; offset < FILE_SIZE; offset += 64 * 1024) {
+			origin.enqueue(new Uint8Array(64 * 1024).fill(1));
+		}
+		origin.close();
+
+		const stats = await sessionsClosed(fileUrl);
+		expect(stats.detachedClients).toBe(1);
+
+		const lengths = [(await first.arrayBuffer()).byteLength, (await second.arrayBuffer()).byteLength].sort((a, b) => a - b);
+		expect(lengths[0]).toBeLessThan(FILE_SIZE);
+		expect(lengths[1]).toBe(FILE_SIZE);
+	});
+});
+
+describe('late joiners', () => {
+	afterEach(() => vi.restoreAllMocks());
+
+	it('get their own origin fetch once the replay buffer overflowed', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/overflow.bin';
+		const size = 256 * 1024;
+
+		// Origin bodies the test feeds by hand, so the first session stays open
+		const origins: ReadableStreamDefaultController<Uint8Array>[] = [];
+		vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+			if (new URL(input instanceof Request ? input.url : input.toString()).host !== 'f000.backblazeb2.com') {
+				return new Response('{"allowed":true}');
+			}
+			const body = new ReadableStream<Uint8Array>({ start: controller => { origins.push(controller); } });
+			return new Response(body, { headers: { 'content-length': size.toString(), etag: '"v1"' } });
+		});
+
+		const streamUrl = new URL('https://coalescer.internal/stream');
+		streamUrl.searchParams.set('url', fileUrl);
+		const first = await coalescer(fileUrl).fetch(streamUrl.toString());
+		const firstBody = first.arrayBuffer();
+
+		// More than the 64 KiB replay buffer
+		origins[0].enqueue(new Uint8Array(64 * 1024).fill(1));
+		origins[0].enqueue(new Uint8Array(64 * 1024).fill(1));
+		for (let i = 0; i < 100; i++) {
+			const { sessions } = await (await coalescer(fileUrl).fetch('https://coalescer.internal/admin/sessions')).json<SessionList>();
+			if (sessions[0]?.bytesStreamed === 128 * 1024) break;
+			await new Promise(resolve => setTimeout(resolve, 20));
+		}
+
+		const late = await coalescer(fileUrl).fetch(streamUrl.toString());
+		expect(late.status).toBe(200);
+		expect(origins).toHaveLength(2);
+
+		origins[1].enqueue(new Uint8Array(size).fill(2));
+		origins[1].close();
+		expect((await late.arrayBuffer()).byteLength).toBe(size);
+
+		origins[0].enqueue(new Uint8Array(size - 128 * 1024).fill(1));
+		origins[0].close();
+		expect((await firstBody).byteLength).toBe(size);
+	});
+});
+
+describe('range sessions', () => {
+	afterEach(() => vi.restoreAllMocks());
+
+	it('fetch only up to the next in-flight session for the file', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/ranges.bin';
+		const size = 1000;
+
+		// Origin bodies the test feeds by hand, answering each Range request with its bytes
+		const origins: { range: string, controller: ReadableStreamDefaultController<Uint8Array> }[] = [];
+		vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+			if (new URL(input instanceof Request ? input.url : input.toString()).host !== 'f000.backblazeb2.com') {
+				return new Response('{"allowed":true}');
+			}
+			const range = ((init?.headers ?? {}) as Record<string, string>)['Range'];
+			const [, start, end] = /bytes=(\d+)-(\d+)/.exec(range)!;
+			let controller!: ReadableStreamDefaultController<Uint8Array>;
+			const body = new ReadableStream<Uint8Array>({ start: c => { controller = c; } });
+			origins.push({ range, controller });
+			return new Response(body, {
+				status: 206,
+				headers: { 'content-range': `bytes ${start}-${end}/${size}`, etag: '"v1"' },
+			});
+		});
+
+		const stream = (range?: string) => {
+			const streamUrl = new URL('https://coalescer.internal/stream');
+			streamUrl.searchParams.set('url', fileUrl);
+			if (range) streamUrl.searchParams.set('range', range);
+			return coalescer(fileUrl).fetch(streamUrl.toString());
+		};
+
+		const tail = await stream('bytes=500-999');
+		expect(tail.status).toBe(206);
+		const tailBody = tail.arrayBuffer();
+
+		const whole = await stream();
+		expect(whole.status).toBe(200);
+		expect(whole.headers.get('content-length')).toBe(size.toString());
+		const wholeBody = whole.arrayBuffer();
+
+		expect(origins.map(origin => origin.range)).toEqual(['bytes=500-999', 'bytes=0-499']);
+
+		origins[1].controller.enqueue(new Uint8Array(500).fill(1));
+		origins[1].controller.close();
+		origins[0].controller.enqueue(new Uint8Array(500).fill(2));
+		origins[0].controller.close();
+
+		const body = new Uint8Array(await wholeBody);
+		expect(body).toHaveLength(size);
+		expect(body[499]).toBe(1);
+		expect(body[500]).toBe(2);
+		expect((await tailBody).byteLength).toBe(500);
+		expect(origins).toHaveLength(2);
+
+		// The whole-file client moved on to the other session, but is still one download
+		const stats = await sessionsClosed(fileUrl);
+		expect(stats).toMatchObject({ sessions: 2, clients: 2, savedRequests: 0 });
+	});
+});
+
+describe('broken origin bodies', () => {
+	const size = 1000;
+
+	// An origin body that sends `sent` bytes and then breaks off
+	const broken = (sent: number) => {
+		let pulls = 0;
+		return new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (pulls++ === 0) {
+					controller.enqueue(new Uint8Array(sent).fill(1));
+				} else {
+					controller.error(new Error('connection reset'));
+				}
+			},
+		});
+	};
+
+	// Record every origin request and answer it with the next reply
+	const mockOrigin = (replies: ((headers: Record<string, string>) => Response | Promise<Response>)[]) => {
+		const requests: Record<string, string>[] = [];
+		vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+			if (new URL(input instanceof Request ? input.url : input.toString()).host !== 'f000.backblazeb2.com') {
+				return new Response('{"allowed":true}');
+			}
+			const headers = (init?.headers ?? {}) as Record<string, string>;
+			requests.push(headers);
+			const reply = replies.shift();
+			if (!reply) throw new Error('unexpected origin request');
+			return reply(headers);
+		});
+		return requests;
+	};
+
+	const stream = (fileUrl: string) => {
+		const streamUrl = new URL('https://coalescer.internal/stream');
+		streamUrl.searchParams.set('url', fileUrl);
+		return coalescer(fileUrl).fetch(streamUrl.toString());
+	};
+
+	afterEach(() => vi.restoreAllMocks());
+
+	it('are resumed with If-Range from where they broke off', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/resumed.bin';
+		const requests = mockOrigin([
+			() => new Response(broken(100), { headers: { 'content-length': size.toString(), etag: '"v1"' } }),
+			() => new Response(new Uint8Array(size - 100).fill(2), {
+				status: 206,
+				headers: { 'content-range': `bytes 100-${size - 1}/${size}`, etag: '"v1"' },
+			}),
+		]);
+
+		const response = await stream(fileUrl);
+		const body = new Uint8Array(await response.arrayBuffer());
+		expect(body).toHaveLength(size);
+		expect(body[99]).toBe(1);
+		expect(body[100]).toBe(2);
+
+		expect(requests).toHaveLength(2);
+		expect(requests[1]['Range']).toBe(`bytes=100-${size - 1}`);
+		expect(requests[1]['If-Range']).toBe('"v1"');
+		await sessionsClosed(fileUrl);
+	});
+
+	it('are not resumed when the file changed', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/changed.bin';
+		const requests = mockOrigin([
+			() => new Response(broken(100), { headers: { 'content-length': size.toString(), etag: '"v1"' } }),
+			// If-Range didn't match, so the origin sends the new file whole
+			() => new Response(new Uint8Array(size).fill(3), { headers: { etag: '"v2"' } }),
+		]);
+
+		const response = await stream(fileUrl);
+		expect(response.status).toBe(200);
+		await expect(response.arrayBuffer()).rejects.toThrow();
+
+		expect(requests).toHaveLength(2);
+		await sessionsClosed(fileUrl);
+	});
+
+	it('count every resume request against the attempt limit', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/flaky.bin';
+		// Resumes alternately fail outright and break off again, each one counts
+		const partial = (headers: Record<string, string>) => {
+			const start = Number(/bytes=(\d+)-/.exec(headers['Range'])![1]);
+			return new Response(broken(100), {
+				status: 206,
+				headers: { 'content-range': `bytes ${start}-${size - 1}/${size}`, etag: '"v1"' },
+			});
+		};
+		const reset = () => Promise.reject(new Error('connection refused'));
+		const requests = mockOrigin([
+			() => new Response(broken(100), { headers: { 'content-length': size.toString(), etag: '"v1"' } }),
+			reset,
+			partial,
+			reset,
+			partial,
+			reset,
+		]);
+
+		const response = await stream(fileUrl);
+		await expect(response.arrayBuffer()).rejects.toThrow();
+		await sessionsClosed(fileUrl);
+
+		// The first request and COALESCE_RESUME_MAX_ATTEMPTS (3) resumes
+		expect(requests).toHaveLength(4);
+	});
+});
+
+describe('block fetches', () => {
+	const size = 350;
+	const file = Array.from({ length: size }, (_, i) => String.fromCharCode(97 + (i % 26))).join('');
+	const blockEnv = { ...testEnv, COALESCE_BLOCK_SIZE: '100' };
+
+	// Answer every block's Range request, with the ETag `etagFor` gives its first byte
+	const mockBlocks = (path: string, etagFor: (start: number) => string = () => '"v1"') => {
+		const ranges: string[] = [];
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path })
+			.reply(options => {
+				const range = (options.headers as Record<string, string>)['range'];
+				ranges.push(range);
+				const [, start, end] = /bytes=(\d+)-(\d+)/.exec(range)!.map(Number);
+				const last = Math.min(end, size - 1);
+				return {
+					statusCode: 206,
+					data: file.slice(start, last + 1),
+					responseOptions: { headers: { 'content-range': `bytes ${start}-${last}/${size}`, etag: etagFor(start) } },
+				};
+			})
+			.persist();
+		return ranges;
+	};
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	it('stitch a range across block boundaries', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/blocks-range.bin';
+		const ranges = mockBlocks('/file/bucket/blocks-range.bin');
+
+		const response = await coalescedFetch({ url: fileUrl, env: blockEnv, headers: new Headers({ range: 'bytes=150-320' }) });
+		expect(response.status).toBe(206);
+		expect(response.headers.get('content-range')).toBe(`bytes 150-320/${size}`);
+		expect(response.headers.get('content-length')).toBe('171');
+		expect(await response.text()).toBe(file.slice(150, 321));
+
+		expect(ranges.sort()).toEqual(['bytes=100-199', 'bytes=200-299', 'bytes=300-399']);
+	});
+
+	it('stitch the whole file, ending with a short last block', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/blocks-whole.bin';
+		mockBlocks('/file/bucket/blocks-whole.bin');
+
+		const response = await coalescedFetch({ url: fileUrl, env: blockEnv });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-range')).toBeNull();
+		expect(response.headers.get('content-length')).toBe(size.toString());
+		expect(await response.text()).toBe(file);
+	});
+
+	it('refuse a range past the end of the file', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/blocks-416.bin';
+		mockBlocks('/file/bucket/blocks-416.bin');
+
+		// The file size is only known from the first block, which the range starts beyond
+		const env = { ...testEnv, COALESCE_BLOCK_SIZE: '1000' };
+		const response = await coalescedFetch({ url: fileUrl, env, headers: new Headers({ range: 'bytes=400-' }) });
+		expect(response.status).toBe(416);
+		expect(response.headers.get('content-range')).toBe(`bytes */${size}`);
+	});
+
+	it('cap blocks at the buffer a client may fall behind by', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/blocks-capped.bin';
+		const ranges = mockBlocks('/file/bucket/blocks-capped.bin');
+
+		const env = { ...testEnv, COALESCE_BLOCK_SIZE: '1000', COALESCE_CLIENT_MAX_BUFFERED_BYTES: '100' };
+		const response = await coalescedFetch({ url: fileUrl, env });
+		expect(await response.text()).toBe(file);
+		expect(ranges.sort()).toEqual(['bytes=0-99', 'bytes=100-199', 'bytes=200-299', 'bytes=300-399']);
+	});
+
+	it('serve an empty file to a plain GET', async () => {
+		fetchMock.get('https://f000.backblazeb2.com')
+			.intercept({ path: '/file/bucket/blocks-empty.bin', headers: { range: 'bytes=0-99' } })
+			.reply(416, '', { headers: { 'content-range': 'bytes */0', etag: '"v1"' } });
+
+		const response = await coalescedFetch({ url: 'https://f000.backblazeb2.com/file/bucket/blocks-empty.bin', env: blockEnv });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-range')).toBeNull();
+		expect(response.headers.get('content-length')).toBe('0');
+		expect(response.headers.get('etag')).toBe('"v1"');
+		expect(await response.text()).toBe('');
+	});
+
+	it('fail when the file changes between blocks', async () => {
+		const fileUrl = 'https://f000.backblazeb2.com/file/bucket/blocks-changed.bin';
+		mockBlocks('/file/bucket/blocks-changed.bin', start => (start < 100 ? '"v1"' : '"v2"'));
+
+		const response = await coalescedFetch({ url: fileUrl, env: blockEnv, headers: new Headers({ range: 'bytes=50-149' }) });
+		expect(response.status).toBe(206);
+		await expect(response.arrayBuffer()).rejects.toThrow();
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { applyConditionals, checkPreconditions, ifRangeMatches } from '../src/utils/conditional';
+
+const validators = { etag: '"v2"', lastModified: 'Wed, 01 Oct 2025 10:00:00 GMT' };
+
+describe('checkPreconditions', () => {
+	it('fails If-Match for another version', () => {
+		expect(checkPreconditions(new Headers({ 'if-match': '"v1"' }), validators)).toBe(412);
+		expect(checkPreconditions(new Headers({ 'if-match': '"v1", "v2"' }), validators)).toBeNull();
+		expect(checkPreconditions(new Headers({ 'if-match': 'W/"v2"' }), validators)).toBe(412);
+	});
+
+	it('answers 304 for a current copy', () => {
+		expect(checkPreconditions(new Headers({ 'if-none-match': 'W/"v2"' }), validators)).toBe(304);
+		expect(checkPreconditions(new Headers({ 'if-modified-since': 'Wed, 01 Oct 2025 10:00:00 GMT' }), validators)).toBe(304);
+		expect(checkPreconditions(new Headers({ 'if-modified-since': 'Tue, 30 Sep 2025 10:00:00 GMT' }), validators)).toBeNull();
+		// If-None-Match wins over If-Modified-Since
+		expect(checkPreconditions(new Headers({
+			'if-none-match': '"v1"',
+			'if-modified-since': 'Wed, 01 Oct 2025 10:00:00 GMT',
+		}), validators)).toBeNull();
+	});
+});
+
+describe('ifRangeMatches', () => {
+	it('only allows ranges of the same version', () => {
+		expect(ifRangeMatches(new Headers(), validators)).toBe(true);
+		expect(ifRangeMatches(new Headers({ 'if-range': '"v2"' }), validators)).toBe(true);
+		expect(ifRangeMatches(new Headers({ 'if-range': '"v1"' }), validators)).toBe(false);
+		expect(ifRangeMatches(new Headers({ 'if-range': 'W/"v2"' }), validators)).toBe(false);
+		expect(ifRangeMatches(new Headers({ 'if-range': 'Wed, 01 Oct 2025 10:00:00 GMT' }), validators)).toBe(true);
+		expect(ifRangeMatches(new Headers({ 'if-range': 'Tue, 30 Sep 2025 10:00:00 GMT' }), validators)).toBe(false);
+	});
+});
+
+describe('applyConditionals', () => {
+	const partial = () => new Response('3456', {
+		status: 206,
+		headers: { etag: '"v2"', 'content-range': 'bytes 3-6/10' },
+	});
+
+	it('fetches the whole file when If-Range names another version', async () => {
+		const whole = new Response('0123456789', { status: 200, headers: { etag: '"v2"' } });
+		const response = await applyConditionals(new Headers({ range: 'bytes=3-6', 'if-range': '"v1"' }), partial(), async () => whole);
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('0123456789');
+	});
+
+	it('replaces the body with a 304 carrying the validators', async () => {
+		const response = await applyConditionals(new Headers({ 'if-none-match': '"v2"' }), partial());
+		expect(response.status).toBe(304);
+		expect(response.headers.get('etag')).toBe('"v2"');
+		expect(response.headers.has('content-range')).toBe(false);
+	});
+});
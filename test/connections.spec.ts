@@ -0,0 +1,52 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { acquireConnection, connectionSubject, ConnectionLease, holdConnection } from '../src/utils/connections';
+
+const testEnv = env as Env;
+
+describe('connectionSubject', () => {
+	it('prefers the token subject over the IP', () => {
+		expect(connectionSubject({ kid: 'default', exp: 0, sub: '42' }, '198.51.100.1')).toBe('user:42');
+		expect(connectionSubject(undefined, '198.51.100.1')).toBe('ip:198.51.100.1');
+	});
+});
+
+describe('connection limits', () => {
+	it('refuses connections over the limit until one is released', async () => {
+		const ctx = createExecutionContext();
+		const subject = 'user:limits';
+
+		const first = await acquireConnection(testEnv, ctx, subject, 2) as ConnectionLease;
+		const second = await acquireConnection(testEnv, ctx, subject, 2) as ConnectionLease;
+		expect(first).not.toBeInstanceOf(Response);
+		expect(second).not.toBeInstanceOf(Response);
+
+		const refused = await acquireConnection(testEnv, ctx, subject, 2);
+		expect(refused).toBeInstanceOf(Response);
+		expect((refused as Response).status).toBe(429);
+
+		// reading the body to the end gives the slot back
+		const response = holdConnection(new Response('file body', { headers: { 'content-length': '9' } }), first);
+		expect(await response.text()).toBe('file body');
+		await waitOnExecutionContext(ctx);
+
+		const third = await acquireConnection(testEnv, ctx, subject, 2);
+		expect(third).not.toBeInstanceOf(Response);
+	});
+
+	it('releases the slot when the client cancels', async () => {
+		const ctx = createExecutionContext();
+		const subject = 'user:cancel';
+
+		const lease = await acquireConnection(testEnv, ctx, subject, 1) as ConnectionLease;
+		const response = holdConnection(new Response(new Blob([new Uint8Array(1024)]).stream()), lease);
+		await response.body!.cancel();
+		await waitOnExecutionContext(ctx);
+
+		expect(await acquireConnection(testEnv, ctx, subject, 1)).not.toBeInstanceOf(Response);
+	});
+
+	it('does not limit tiers without a maximum', async () => {
+		expect(await acquireConnection(testEnv, createExecutionContext(), 'user:unlimited', 0)).toBeNull();
+	});
+});
@@ -0,0 +1,111 @@
+import { createExecutionContext, env, fetchMock, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import type { IRequest } from 'itty-router';
+import { download } from '../src/routes/download';
+import { reportOrigin } from '../src/utils/breaker';
+import { encryptUrlHash } from '../src/utils/url-hash';
+
+const primary = 'https://f000.backblazeb2.com';
+const mirror = 'https://s3.us-west-004.backblazeb2.com';
+
+const testEnv = {
+	...env,
+	SECRET: 'test-secret',
+	SIGNATURE_MODE: 'off',
+	// Direct fetches with quick retries and a short timeout
+	STORAGE_PROVIDERS: JSON.stringify([{
+		name: 'b2',
+		hosts: ['*.backblazeb2.com', '*.backblaze.com'],
+		coalesce: false,
+		errorFormat: 'b2',
+		retry: { maxRetries: 2, baseDelayMs: 1, timeoutMs: 100 },
+	}]),
+} as Env;
+
+const downloadMirrored = async (url: string, mirrors: string[]) => {
+	const urlHASH = await encryptUrlHash(JSON.stringify({ url, mirrors }), testEnv.SECRET, 'download');
+	const request = new Request(`https://example.com/download/${urlHASH}`, {
+		headers: { 'cf-connecting-ip': '203.0.113.7' },
+	}) as unknown as IRequest;
+	Object.assign(request, { urlHASH, query: {} });
+
+	const ctx = createExecutionContext();
+	const response = await download(request, testEnv, ctx);
+	const body = await response.text();
+	await waitOnExecutionContext(ctx);
+	return { response, body };
+};
+
+const mockMirror = (path: string) => {
+	fetchMock.get(mirror).intercept({ path }).reply(200, 'from the mirror');
+};
+
+describe('download mirrors', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('take over when the file is missing', async () => {
+		fetchMock.get(primary).intercept({ path: '/file/bucket/missing.bin' }).reply(404, 'not here');
+		mockMirror('/bucket/missing.bin');
+
+		const { response, body } = await downloadMirrored(`${primary}/file/bucket/missing.bin`, [`${mirror}/bucket/missing.bin`]);
+		expect(response.status).toBe(200);
+		expect(body).toBe('from the mirror');
+		expect(response.headers.get('x-mirror')).toBe('1');
+		expect(response.headers.get('x-mirror-host')).toBe('s3.us-west-004.backblazeb2.com');
+	});
+
+	it('take over once the origin keeps failing', async () => {
+		fetchMock.get(primary).intercept({ path: '/file/bucket/failing.bin' }).reply(500, 'oops').times(3);
+		mockMirror('/bucket/failing.bin');
+
+		const { response, body } = await downloadMirrored(`${primary}/file/bucket/failing.bin`, [`${mirror}/bucket/failing.bin`]);
+		expect(response.status).toBe(200);
+		expect(body).toBe('from the mirror');
+		expect(response.headers.get('x-mirror')).toBe('1');
+	});
+
+	it('take over after the first timeout', async () => {
+		let attempts = 0;
+		fetchMock.get(primary)
+			.intercept({ path: '/file/bucket/slow.bin' })
+			.reply(() => {
+				attempts++;
+				return { statusCode: 200, data: 'too late' };
+			})
+			.delay(300)
+			.persist();
+		mockMirror('/bucket/slow.bin');
+
+		const { response, body } = await downloadMirrored(`${primary}/file/bucket/slow.bin`, [`${mirror}/bucket/slow.bin`]);
+		expect(response.status).toBe(200);
+		expect(body).toBe('from the mirror');
+		expect(attempts).toBe(1);
+	});
+
+	it('skip an origin whose circuit is open', async () => {
+		const pod = new URL('https://pod-000-1118-16.backblaze.com/file/bucket/a.bin');
+		for (let i = 0; i < 20; i++) {
+			await reportOrigin(testEnv, pod, { ok: false, status: 500 });
+		}
+		mockMirror('/bucket/open.bin');
+
+		const { response, body } = await downloadMirrored(pod.toString(), [`${mirror}/bucket/open.bin`]);
+		expect(response.status).toBe(200);
+		expect(body).toBe('from the mirror');
+		expect(response.headers.get('x-mirror-host')).toBe('s3.us-west-004.backblazeb2.com');
+	});
+
+	it('leave the last origin answer when every mirror fails', async () => {
+		fetchMock.get(primary).intercept({ path: '/file/bucket/gone.bin' }).reply(404, '');
+		fetchMock.get(mirror).intercept({ path: '/bucket/gone.bin' }).reply(404, '');
+
+		const { response } = await downloadMirrored(`${primary}/file/bucket/gone.bin`, [`${mirror}/bucket/gone.bin`]);
+		expect(response.status).toBe(404);
+		expect(response.headers.get('x-mirror')).toBe('1');
+	});
+});
@@ -0,0 +1,47 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { edgeCacheKey, getEdgeCacheConfig, isCacheable, matchEdgeCache, storeInEdgeCache } from '../src/utils/edge-cache';
+
+const testEnv = env as Env;
+const fileUrl = new URL('https://f000.backblazeb2.com/file/bucket/movie.mp4?Authorization=abc');
+const config = { ttl: 60, maxBytes: 1024 };
+
+describe('edgeCacheKey', () => {
+	it('keys by object path, and blocks by index and size', () => {
+		expect(edgeCacheKey(fileUrl)).toBe('https://edge-cache.internal/f000.backblazeb2.com/file/bucket/movie.mp4');
+		expect(edgeCacheKey(fileUrl, { index: 2, size: 1024 })).not.toBe(edgeCacheKey(fileUrl, { index: 2, size: 2048 }));
+	});
+});
+
+describe('getEdgeCacheConfig', () => {
+	it('is off unless a TTL is configured', () => {
+		expect(getEdgeCacheConfig(testEnv).ttl).toBe(0);
+		expect(getEdgeCacheConfig({ ...testEnv, EDGE_CACHE_TTL: '300' } as Env).ttl).toBe(300);
+	});
+});
+
+describe('isCacheable', () => {
+	const response = (status: number, headers: Record<string, string>) => new Response('x', { status, headers });
+
+	it('stores small public responses only', () => {
+		expect(isCacheable(response(200, { 'content-length': '10' }), config)).toBe(true);
+		expect(isCacheable(response(200, { 'content-length': '2048' }), config)).toBe(false);
+		expect(isCacheable(response(200, { 'content-length': '10', 'cache-control': 'private' }), config)).toBe(false);
+		expect(isCacheable(response(404, { 'content-length': '10' }), config)).toBe(false);
+		expect(isCacheable(response(200, { 'content-length': '10' }), { ...config, ttl: 0 })).toBe(false);
+	});
+});
+
+describe('edge cache', () => {
+	it('serves ranges of a stored response', async () => {
+		const key = edgeCacheKey(fileUrl);
+		const ctx = createExecutionContext();
+		const served = storeInEdgeCache(key, new Response('0123456789', { headers: { 'content-length': '10' } }), config, ctx);
+		expect(await served.text()).toBe('0123456789');
+		await waitOnExecutionContext(ctx);
+
+		const cached = await matchEdgeCache(key, new Headers({ range: 'bytes=2-4' }));
+		expect(cached?.status).toBe(206);
+		expect(await cached?.text()).toBe('234');
+	});
+});
@@ -0,0 +1,42 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { ipInPrefix, ipPrefix, resolveClientIP } from '../src/utils/ip';
+
+describe('ipInPrefix', () => {
+	it('matches IPv4 and IPv6 prefixes', () => {
+		expect(ipInPrefix('203.0.113.57', '203.0.113.0/24')).toBe(true);
+		expect(ipInPrefix('203.0.114.1', '203.0.113.0/24')).toBe(false);
+		expect(ipInPrefix('2001:db8:1:2:aaaa::1', '2001:db8:1:2::/64')).toBe(true);
+		expect(ipInPrefix('2001:db8:1:3::1', '2001:db8:1:2::/64')).toBe(false);
+		expect(ipInPrefix('10.0.0.1', '10.0.0.1')).toBe(true);
+		expect(ipInPrefix('10.0.0.1', '::/0')).toBe(false);
+	});
+});
+
+describe('ipPrefix', () => {
+	it('returns the /24 or /64 network', () => {
+		expect(ipPrefix('203.0.113.57')).toBe('203.0.113.0/24');
+		expect(ipPrefix('2001:db8:1:2:aaaa:bbbb:cccc:dddd')).toBe('2001:db8:1:2::/64');
+	});
+
+	it('writes IPv6 networks in the RFC 5952 form XFS signs', () => {
+		expect(ipPrefix('2001:db8:0:0:8d3:0:0:1')).toBe('2001:db8::/64');
+		expect(ipPrefix('2001:DB8:0000:0001::5')).toBe('2001:db8:0:1::/64');
+		// The longer run of zeros is the one shortened
+		expect(ipPrefix('2001:0:0:1::5')).toBe('2001:0:0:1::/64');
+		expect(ipPrefix('::ffff:203.0.113.9')).toBe('::/64');
+		expect(ipPrefix('fe80::1%eth0')).toBe('fe80::/64');
+	});
+});
+
+describe('resolveClientIP', () => {
+	it('ignores forwarding headers from untrusted peers', () => {
+		const headers = new Headers({ 'CF-Connecting-IP': '198.51.100.1', 'X-Forwarded-For': '203.0.113.9' });
+		expect(resolveClientIP(headers, { ...env, TRUSTED_PROXIES: '' } as Env)).toBe('198.51.100.1');
+	});
+
+	it('walks X-Forwarded-For past trusted proxies', () => {
+		const headers = new Headers({ 'CF-Connecting-IP': '10.0.0.2', 'X-Forwarded-For': '6.6.6.6, 203.0.113.9, 10.0.0.1' });
+		expect(resolveClientIP(headers, { ...env, TRUSTED_PROXIES: '10.0.0.0/8' } as Env)).toBe('203.0.113.9');
+	});
+});
@@ -0,0 +1,99 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import type { IRequest } from 'itty-router';
+import { completeMultipartUpload, createMultipartUpload, uploadMultipartPart } from '../src/routes/multipart';
+import { encryptUrlHash } from '../src/utils/url-hash';
+import type { UploadState } from '../src/upload-session';
+
+const origin = 'https://s3.us-west-004.backblazeb2.com';
+const objectPath = '/bucket/movie.mp4';
+
+const testEnv = {
+	...env,
+	SECRET: 'test-secret',
+	SIGNATURE_MODE: 'off',
+	S3_ACCESS_KEY_ID: 'key-id',
+	S3_SECRET_ACCESS_KEY: 'secret-key',
+} as Env;
+
+const routeRequest = (method: string, params: Record<string, string>, body?: string) => {
+	const request = new Request(`https://example.com/upload/${params.urlHASH}/multipart`, {
+		method,
+		body,
+		headers: body ? { 'content-length': body.length.toString() } : {},
+	}) as unknown as IRequest;
+	Object.assign(request, params, { query: {} });
+	return request;
+};
+
+const listPartsXml = (parts: [number, string][]) =>
+	'<ListPartsResult><IsTruncated>false</IsTruncated>' +
+	parts.map(([number, etag]) => `<Part><PartNumber>${number}</PartNumber><ETag>${etag}</ETag><Size>5</Size></Part>`).join('') +
+	'</ListPartsResult>';
+
+const startUpload = async (urlHASH: string, uploadId: string) => {
+	fetchMock.get(origin)
+		.intercept({ method: 'POST', path: `${objectPath}?uploads=` })
+		.reply(200, `<InitiateMultipartUploadResult><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`);
+	const response = await createMultipartUpload(routeRequest('POST', { urlHASH }), testEnv);
+	expect(response.status).toBe(201);
+};
+
+const uploadPart = (urlHASH: string, uploadId: string, partNumber: number) => {
+	fetchMock.get(origin)
+		.intercept({ method: 'PUT', path: `${objectPath}?partNumber=${partNumber}&uploadId=${uploadId}` })
+		.reply(200, '', { headers: { etag: `"etag-${partNumber}"` } });
+	return uploadMultipartPart(routeRequest('PUT', { urlHASH, uploadId, partNumber: partNumber.toString() }, 'xxxxx'), testEnv);
+};
+
+describe('multipart uploads', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('records parts uploaded in parallel and completes with the listed parts', async () => {
+		const urlHASH = await encryptUrlHash(`${origin}${objectPath}`, testEnv.SECRET, 'upload');
+		await startUpload(urlHASH, 'upload-1');
+
+		const responses = await Promise.all([1, 2, 3].map(partNumber => uploadPart(urlHASH, 'upload-1', partNumber)));
+		expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+
+		const session = testEnv.UPLOAD_SESSION.get(testEnv.UPLOAD_SESSION.idFromName('upload-1'));
+		const state = await (await session.fetch('https://upload-session.internal/')).json<UploadState>();
+		expect(Object.keys(state.parts)).toEqual(['1', '2', '3']);
+
+		fetchMock.get(origin)
+			.intercept({ method: 'GET', path: `${objectPath}?uploadId=upload-1&max-parts=1000&part-number-marker=0` })
+			.reply(200, listPartsXml([[1, '"etag-1"'], [2, '"etag-2"'], [3, '"etag-3"']]));
+		let completed = '';
+		fetchMock.get(origin)
+			.intercept({ method: 'POST', path: `${objectPath}?uploadId=upload-1` })
+			.reply(options => {
+				completed = options.body as string;
+				return { statusCode: 200, data: '<CompleteMultipartUploadResult><ETag>"final"</ETag></CompleteMultipartUploadResult>' };
+			});
+
+		const response = await completeMultipartUpload(routeRequest('POST', { urlHASH, uploadId: 'upload-1' }), testEnv);
+		expect(await response.json()).toEqual({ uploadId: 'upload-1', parts: 3, size: 15, etag: '"final"' });
+		expect(completed.match(/<PartNumber>/g)).toHaveLength(3);
+	});
+
+	it('refuses to complete when a recorded part is missing at the origin', async () => {
+		const urlHASH = await encryptUrlHash(`${origin}${objectPath}`, testEnv.SECRET, 'upload');
+		await startUpload(urlHASH, 'upload-2');
+		await uploadPart(urlHASH, 'upload-2', 1);
+		await uploadPart(urlHASH, 'upload-2', 2);
+
+		fetchMock.get(origin)
+			.intercept({ method: 'GET', path: `${objectPath}?uploadId=upload-2&max-parts=1000&part-number-marker=0` })
+			.reply(200, listPartsXml([[1, '"etag-1"']]));
+
+		const response = await completeMultipartUpload(routeRequest('POST', { urlHASH, uploadId: 'upload-2' }), testEnv);
+		expect(response.status).toBe(409);
+		const session = testEnv.UPLOAD_SESSION.get(testEnv.UPLOAD_SESSION.idFromName('upload-2'));
+		await session.fetch('https://upload-session.internal/', { method: 'DELETE' });
+	});
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { originUrls, parsePayload } from '../src/utils/payload';
+
+describe('parsePayload', () => {
+	it('accepts bare URLs and JSON payloads', () => {
+		expect(parsePayload('https://f000.backblazeb2.com/file/a ')).toEqual({ url: 'https://f000.backblazeb2.com/file/a' });
+		expect(parsePayload('{"bucket":"BUCKET","key":"a/b"}')).toEqual({ bucket: 'BUCKET', key: 'a/b' });
+		expect(() => parsePayload('{"sha1":"abc"}')).toThrow();
+	});
+});
+
+describe('originUrls', () => {
+	it('lists the URL first, then its mirrors', () => {
+		const payload = parsePayload(JSON.stringify({
+			url: 'https://f000.backblazeb2.com/file/a',
+			mirrors: ['https://files.r2.dev/a', 42],
+		}));
+		expect(originUrls(payload)).toEqual(['https://f000.backblazeb2.com/file/a', 'https://files.r2.dev/a']);
+	});
+});
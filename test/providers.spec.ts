@@ -0,0 +1,63 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { hostMatches, interpretOriginError, resolveProvider } from '../src/utils/providers';
+
+const testEnv = env as Env;
+
+describe('hostMatches', () => {
+	it('matches exact hosts and subdomain wildcards', () => {
+		expect(hostMatches('f000.backblazeb2.com', '*.backblazeb2.com')).toBe(true);
+		expect(hostMatches('backblazeb2.com', '*.backblazeb2.com')).toBe(false);
+		expect(hostMatches('evilbackblazeb2.com', '*.backblazeb2.com')).toBe(false);
+		expect(hostMatches('Media.Example.com', 'media.example.com')).toBe(true);
+		expect(hostMatches('anything.test', '*')).toBe(true);
+	});
+});
+
+describe('resolveProvider', () => {
+	it('picks the built-in providers by host', () => {
+		expect(resolveProvider(new URL('https://f000.backblazeb2.com/file/a'), testEnv).name).toBe('b2');
+		expect(resolveProvider(new URL('https://pod-000-1118-16.backblaze.com/b2api/v2/b2_upload_file/bucket/token'), testEnv).name).toBe('b2');
+		expect(resolveProvider(new URL('https://s3.eu-central-1.wasabisys.com/a'), testEnv).name).toBe('wasabi');
+		expect(resolveProvider(new URL('https://files.example.com/a'), testEnv).name).toBe('default');
+	});
+
+	it('lets configured providers come first and replace built-ins', () => {
+		const configured = {
+			...testEnv,
+			STORAGE_PROVIDERS: JSON.stringify([
+				{ name: 'media', hosts: ['files.example.com'], coalesce: true, retry: { maxRetries: 5 } },
+				{ name: 'b2', hosts: ['*.backblazeb2.com'], coalesce: false },
+			]),
+		} as Env;
+
+		const media = resolveProvider(new URL('https://files.example.com/a'), configured);
+		expect(media.name).toBe('media');
+		expect(media.coalesce).toBe(true);
+		expect(media.retry).toEqual({ maxRetries: 5, baseDelayMs: 1000, timeoutMs: 25000 });
+		expect(resolveProvider(new URL('https://f000.backblazeb2.com/file/a'), configured).coalesce).toBe(false);
+	});
+
+	it('ignores invalid configuration', () => {
+		const configured = { ...testEnv, STORAGE_PROVIDERS: '{not json' } as Env;
+		expect(resolveProvider(new URL('https://f000.backblazeb2.com/file/a'), configured).name).toBe('b2');
+	});
+});
+
+describe('interpretOriginError', () => {
+	it('reads S3 XML error codes', async () => {
+		const provider = resolveProvider(new URL('https://bucket.s3.amazonaws.com/a'), testEnv);
+		const response = new Response('<Error><Code>SlowDown</Code><Message>Reduce your request rate.</Message></Error>', { status: 429 });
+		expect(await interpretOriginError(provider, response)).toEqual({
+			status: 429, code: 'SlowDown', message: 'Reduce your request rate.', retryable: true,
+		});
+	});
+
+	it('reads B2 JSON errors', async () => {
+		const provider = resolveProvider(new URL('https://f000.backblazeb2.com/file/a'), testEnv);
+		const response = Response.json({ status: 401, code: 'bad_auth_token', message: 'Invalid token' }, { status: 401 });
+		expect(await interpretOriginError(provider, response)).toEqual({
+			status: 401, code: 'bad_auth_token', message: 'Invalid token', retryable: false,
+		});
+	});
+});
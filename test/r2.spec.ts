@@ -0,0 +1,63 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { getObject, headObject, putObject, resolveBucket } from '../src/utils/r2';
+
+const testEnv = env as Env;
+const key = 'videos/movie.mp4';
+
+describe('R2 bindings', () => {
+	beforeAll(async () => {
+		const body = new Blob(['0123456789']).stream();
+		await putObject(testEnv.BUCKET!, key, body, new Headers({ 'content-type': 'video/mp4' }));
+	});
+
+	it('only resolves bucket bindings', () => {
+		expect(resolveBucket(testEnv, 'BUCKET')).toBe(testEnv.BUCKET);
+		expect(resolveBucket(testEnv, 'DOWNLOAD_COALESCER')).toBeNull();
+		expect(resolveBucket(testEnv, 'MISSING')).toBeNull();
+	});
+
+	it('serves the whole object with its metadata', async () => {
+		const response = await getObject(testEnv.BUCKET!, key, new Headers());
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe('video/mp4');
+		expect(await response.text()).toBe('0123456789');
+	});
+
+	it('answers HEAD with the size and no body', async () => {
+		const response = await headObject(testEnv.BUCKET!, key);
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-length')).toBe('10');
+		expect(response.body).toBeNull();
+
+		expect((await headObject(testEnv.BUCKET!, 'missing.mp4')).status).toBe(404);
+	});
+
+	it('serves ranges and rejects unsatisfiable ones', async () => {
+		const partial = await getObject(testEnv.BUCKET!, key, new Headers({ range: 'bytes=-3' }));
+		expect(partial.status).toBe(206);
+		expect(partial.headers.get('content-range')).toBe('bytes 7-9/10');
+		expect(await partial.text()).toBe('789');
+
+		const unsatisfiable = await getObject(testEnv.BUCKET!, key, new Headers({ range: 'bytes=20-' }));
+		expect(unsatisfiable.status).toBe(416);
+		expect(unsatisfiable.headers.get('content-range')).toBe('bytes */10');
+	});
+
+	it('answers conditional requests', async () => {
+		const first = await getObject(testEnv.BUCKET!, key, new Headers());
+		await first.arrayBuffer();
+		const etag = first.headers.get('etag')!;
+
+		const notModified = await getObject(testEnv.BUCKET!, key, new Headers({ 'if-none-match': etag }));
+		expect(notModified.status).toBe(304);
+
+		const failed = await getObject(testEnv.BUCKET!, key, new Headers({ 'if-match': '"other"' }));
+		expect(failed.status).toBe(412);
+	});
+
+	it('returns 404 for missing objects', async () => {
+		const response = await getObject(testEnv.BUCKET!, 'missing', new Headers());
+		expect(response.status).toBe(404);
+	});
+});
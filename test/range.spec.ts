@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+	formatContentRange,
+	parseContentRange,
+	parseContentRangeTotal,
+	parseRange,
+	parseRanges,
+	resolveRange,
+	resolveRanges,
+} from '../src/utils/range';
+
+describe('parseRange', () => {
+	it('parses closed, open-ended and suffix ranges', () => {
+		expect(parseRange('bytes=0-99')).toEqual({ start: 0, end: 99, suffix: null });
+		expect(parseRange('bytes=500-')).toEqual({ start: 500, end: null, suffix: null });
+		expect(parseRange('bytes=-200')).toEqual({ start: null, end: null, suffix: 200 });
+	});
+
+	it('rejects malformed and multi-range headers', () => {
+		expect(parseRange('')).toBeNull();
+		expect(parseRange('bytes=10-5')).toBeNull();
+		expect(parseRange('items=0-5')).toBeNull();
+		expect(parseRange('bytes=0-99,200-299')).toBeNull();
+	});
+});
+
+describe('resolveRange', () => {
+	it('clamps the end to the file size', () => {
+		expect(resolveRange({ start: 10, end: 5000, suffix: null }, 1000)).toEqual({ start: 10, end: 999 });
+		expect(resolveRange({ start: null, end: null, suffix: 100 }, 1000)).toEqual({ start: 900, end: 999 });
+	});
+
+	it('returns null for unsatisfiable ranges', () => {
+		expect(resolveRange({ start: 1000, end: null, suffix: null }, 1000)).toBeNull();
+	});
+});
+
+describe('parseRanges', () => {
+	it('parses every range of a multi-range header', () => {
+		expect(parseRanges('bytes=0-99, 500-, -200')).toEqual([
+			{ start: 0, end: 99, suffix: null },
+			{ start: 500, end: null, suffix: null },
+			{ start: null, end: null, suffix: 200 },
+		]);
+	});
+
+	it('rejects the header when any range is malformed', () => {
+		expect(parseRanges('bytes=0-99,abc')).toBeNull();
+		expect(parseRanges('bytes=0-99,')).toBeNull();
+	});
+});
+
+describe('resolveRanges', () => {
+	it('sorts and merges overlapping and adjacent ranges', () => {
+		const specs = parseRanges('bytes=500-599,0-99,50-149,150-199,-100')!;
+		expect(resolveRanges(specs, 1000)).toEqual([
+			{ start: 0, end: 199 },
+			{ start: 500, end: 599 },
+			{ start: 900, end: 999 },
+		]);
+	});
+
+	it('drops unsatisfiable ranges', () => {
+		expect(resolveRanges(parseRanges('bytes=2000-,0-9')!, 1000)).toEqual([{ start: 0, end: 9 }]);
+		expect(resolveRanges(parseRanges('bytes=2000-,3000-')!, 1000)).toEqual([]);
+	});
+});
+
+describe('Content-Range', () => {
+	it('round-trips through format and parse', () => {
+		const header = formatContentRange({ start: 100, end: 199 }, 1000);
+		expect(header).toBe('bytes 100-199/1000');
+		expect(parseContentRange(header)).toEqual({ start: 100, end: 199, total: 1000 });
+		expect(parseContentRange('bytes 0-9/*')).toEqual({ start: 0, end: 9, total: null });
+	});
+
+	it('reads the file size from satisfied and unsatisfied ranges', () => {
+		expect(parseContentRangeTotal('bytes 0-0/1000')).toBe(1000);
+		expect(parseContentRangeTotal('bytes */1000')).toBe(1000);
+		expect(parseContentRangeTotal('bytes 0-9/*')).toBeNull();
+	});
+});
@@ -0,0 +1,66 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { IRequest } from 'itty-router';
+import { rateLimit, withRateLimitHeaders } from '../src/utils/rate-limit';
+
+const limitedEnv = {
+	...(env as Env),
+	RATE_LIMITS: JSON.stringify({
+		download: {
+			ip: { capacity: 3, refillPerSecond: 0 },
+			file: { capacity: 2, refillPerSecond: 0 },
+		},
+	}),
+} as Env;
+
+const downloadRequest = (urlHASH: string, ip: string) => {
+	return new Request(`https://example.com/download/${urlHASH}`, { headers: { 'cf-connecting-ip': ip } }) as unknown as IRequest;
+};
+
+describe('rateLimit', () => {
+	it('rejects once a file bucket is empty', async () => {
+		expect(await rateLimit(downloadRequest('file-a', '198.51.100.1'), limitedEnv)).toBeUndefined();
+
+		const request = downloadRequest('file-a', '198.51.100.2');
+		expect(await rateLimit(request, limitedEnv)).toBeUndefined();
+		const response = withRateLimitHeaders(new Response('ok'), request);
+		expect(response.headers.get('RateLimit-Limit')).toBe('2');
+		expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+
+		const rejected = await rateLimit(downloadRequest('file-a', '198.51.100.3'), limitedEnv);
+		expect(rejected?.status).toBe(429);
+		expect(rejected?.headers.get('Retry-After')).toBe('1');
+		expect(rejected?.headers.get('RateLimit-Remaining')).toBe('0');
+	});
+
+	it('rejects once an IP bucket is empty', async () => {
+		for (const file of ['file-b', 'file-c', 'file-d']) {
+			expect(await rateLimit(downloadRequest(file, '203.0.113.9'), limitedEnv)).toBeUndefined();
+		}
+		expect((await rateLimit(downloadRequest('file-e', '203.0.113.9'), limitedEnv))?.status).toBe(429);
+	});
+
+	it('limits multipart part uploads apart from starting uploads', async () => {
+		const uploadRequest = (path: string) => {
+			return new Request(`https://example.com/upload/file-f${path}`, {
+				method: 'PUT',
+				headers: { 'cf-connecting-ip': '192.0.2.7' },
+			}) as unknown as IRequest;
+		};
+
+		// More parts than the default upload bucket holds
+		for (let partNumber = 1; partNumber <= 40; partNumber++) {
+			expect(await rateLimit(uploadRequest(`/multipart/upload-1/${partNumber}`), env as Env)).toBeUndefined();
+		}
+
+		const request = uploadRequest('');
+		expect(await rateLimit(request, env as Env)).toBeUndefined();
+		expect(request.rateLimit?.remaining).toBe(29);
+	});
+
+	it('leaves routes without limits alone', async () => {
+		const request = new Request('https://example.com/circuit/example.com') as unknown as IRequest;
+		expect(await rateLimit(request, limitedEnv)).toBeUndefined();
+		expect(request.rateLimit).toBeUndefined();
+	});
+});
@@ -0,0 +1,115 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { ReplayBuffer } from '../src/utils/replay-buffer';
+
+const testEnv = env as Env;
+
+// Run the test against the storage of a fresh coalescer DO
+const withStorage = (name: string, test: (storage: DurableObjectStorage) => Promise<void>) => {
+	const stub = testEnv.DOWNLOAD_COALESCER.get(testEnv.DOWNLOAD_COALESCER.idFromName(`replay-buffer:${name}`));
+	return runInDurableObject(stub, (_instance, state) => test(state.storage));
+};
+
+const chunk = (size: number, fill: number) => new Uint8Array(size).fill(fill);
+
+const collect = async (chunks: AsyncGenerator<Uint8Array>) => {
+	const collected: Uint8Array[] = [];
+	for await (const chunk of chunks) collected.push(chunk);
+	return collected;
+};
+
+describe('ReplayBuffer', () => {
+	it('replays chunks kept in memory in order', () =>
+		withStorage('memory', async storage => {
+			const buffer = new ReplayBuffer({ storage, prefix: 'replay:memory', memoryLimit: 300, spillLimit: 0 });
+			buffer.append(chunk(100, 1));
+			buffer.append(chunk(100, 2));
+			buffer.append(chunk(100, 3));
+
+			expect(buffer.size).toBe(300);
+			expect(buffer.chunkCount).toBe(3);
+			expect((await collect(buffer.replay())).map(c => c[0])).toEqual([1, 2, 3]);
+			// A snapshot of the chunk count leaves out chunks appended later
+			expect((await collect(buffer.replay(2))).map(c => c[0])).toEqual([1, 2]);
+			expect(await storage.list({ prefix: 'replay:memory' })).toHaveProperty('size', 0);
+		}));
+
+	it('spills chunks beyond the memory limit to storage and reads them back', () =>
+		withStorage('spill', async storage => {
+			const buffer = new ReplayBuffer({ storage, prefix: 'replay:spill', memoryLimit: 150, spillLimit: 1024 * 1024 });
+			buffer.append(chunk(100, 1));
+			buffer.append(chunk(100, 2));
+			buffer.append(chunk(100, 3));
+
+			expect(buffer.overflowed).toBe(false);
+			expect(buffer.size).toBe(300);
+			expect(await storage.list({ prefix: 'replay:spill' })).toHaveProperty('size', 2);
+			expect((await collect(buffer.replay())).map(c => c[0])).toEqual([1, 2, 3]);
+
+			await buffer.clear();
+			expect(await storage.list({ prefix: 'replay:spill' })).toHaveProperty('size', 0);
+		}));
+
+	it('splits spilled chunks larger than a storage value', () =>
+		withStorage('split', async storage => {
+			const buffer = new ReplayBuffer({ storage, prefix: 'replay:split', memoryLimit: 0, spillLimit: 1024 * 1024 });
+			buffer.append(chunk(200 * 1024, 7));
+
+			expect(buffer.chunkCount).toBe(2);
+			const replayed = await collect(buffer.replay());
+			expect(replayed.map(c => c.byteLength)).toEqual([128 * 1024, 72 * 1024]);
+			expect(replayed.every(c => c.every(byte => byte === 7))).toBe(true);
+
+			await buffer.clear();
+		}));
+
+	it('drops everything once the spill limit is exceeded', () =>
+		withStorage('overflow', async storage => {
+			const buffer = new ReplayBuffer({ storage, prefix: 'replay:overflow', memoryLimit: 100, spillLimit: 150 });
+			buffer.append(chunk(100, 1));
+			buffer.append(chunk(100, 2));
+			expect(buffer.overflowed).toBe(false);
+
+			buffer.append(chunk(100, 3));
+			expect(buffer.overflowed).toBe(true);
+			expect(buffer.size).toBe(0);
+			expect(buffer.chunkCount).toBe(0);
+
+			// Later chunks are ignored, the buffer can't be complete again
+			buffer.append(chunk(10, 4));
+			expect(buffer.size).toBe(0);
+			expect(await collect(buffer.replay())).toEqual([]);
+			expect(await storage.list({ prefix: 'replay:overflow' })).toHaveProperty('size', 0);
+		}));
+
+	it('overflows when a spilled chunk fails to store', () =>
+		withStorage('failed', async storage => {
+			const put = vi.spyOn(storage, 'put').mockRejectedValue(new Error('storage unavailable'));
+			const buffer = new ReplayBuffer({ storage, prefix: 'replay:failed', memoryLimit: 100, spillLimit: 1024 });
+			buffer.append(chunk(100, 1));
+			buffer.append(chunk(100, 2));
+			expect(put).toHaveBeenCalledOnce();
+
+			await vi.waitFor(() => expect(buffer.overflowed).toBe(true));
+			expect(buffer.chunkCount).toBe(0);
+			put.mockRestore();
+		}));
+
+	it('keeps spilled chunks until a running replay has read them', () =>
+		withStorage('active', async storage => {
+			const buffer = new ReplayBuffer({ storage, prefix: 'replay:active', memoryLimit: 100, spillLimit: 1024 });
+			buffer.append(chunk(100, 1));
+			buffer.append(chunk(100, 2));
+
+			const replay = buffer.replay();
+			expect((await replay.next()).value[0]).toBe(1);
+
+			await buffer.clear();
+			expect(buffer.overflowed).toBe(true);
+			expect(await storage.list({ prefix: 'replay:active' })).toHaveProperty('size', 1);
+
+			expect((await replay.next()).value[0]).toBe(2);
+			expect((await replay.next()).done).toBe(true);
+			expect(await storage.list({ prefix: 'replay:active' })).toHaveProperty('size', 0);
+		}));
+});
@@ -0,0 +1,42 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { throttleResponse } from '../src/utils/streams';
+import { resolveTier } from '../src/utils/tiers';
+
+const testEnv = env as Env;
+const url = 'https://f000.backblazeb2.com/file/a';
+
+describe('resolveTier', () => {
+	it('uses the configured tier rates', () => {
+		expect(resolveTier(testEnv, { url, tier: 'free' })).toEqual({ name: 'free', bytesPerSecond: 512 * 1024, maxConnections: 2 });
+		expect(resolveTier(testEnv, { url, tier: 'premium' })).toEqual({ name: 'premium', bytesPerSecond: 0, maxConnections: 0 });
+		expect(resolveTier(testEnv, { url })).toEqual({ name: 'default', bytesPerSecond: 0, maxConnections: 0 });
+
+		const configured = { ...testEnv, TIERS: JSON.stringify({ gold: { bytesPerSecond: 1000 } }) } as Env;
+		expect(resolveTier(configured, { url, tier: 'gold' }).bytesPerSecond).toBe(1000);
+	});
+
+	it('prefers the token over the payload', () => {
+		expect(resolveTier(testEnv, { url, tier: 'free' }, { kid: 'default', exp: 0, tier: 'premium' }).bytesPerSecond).toBe(0);
+		expect(resolveTier(testEnv, { url, tier: 'premium', bytesPerSecond: 2048 })).toEqual({ name: 'premium', bytesPerSecond: 2048, maxConnections: 0 });
+		expect(resolveTier(testEnv, { url, bytesPerSecond: 2048 }, { kid: 'default', exp: 0, bps: 4096 }).bytesPerSecond).toBe(4096);
+	});
+});
+
+describe('throttleResponse', () => {
+	it('paces the body and keeps its length', async () => {
+		const body = new Uint8Array(4096);
+		const response = throttleResponse(new Response(body, { headers: { 'content-length': '4096' } }), 20480);
+		expect(response.headers.get('content-length')).toBe('4096');
+
+		const started = Date.now();
+		expect((await response.arrayBuffer()).byteLength).toBe(4096);
+		// two slices of 2048 bytes, the second one is due 100ms in
+		expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+	});
+
+	it('leaves unthrottled responses alone', () => {
+		const response = new Response('data');
+		expect(throttleResponse(response, 0)).toBe(response);
+	});
+});
@@ -0,0 +1,81 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { IRequest } from 'itty-router';
+import { generateSignature } from '../src/utils';
+import { checkSignature } from '../src/utils/auth';
+import { createToken, verifyToken } from '../src/utils/token';
+
+const testEnv = {
+	...env,
+	SECRET: 'test-secret',
+	SIGNING_KEYS: JSON.stringify({ old: 'old-secret', new: 'new-secret' }),
+	SIGNING_KEY_ID: 'new',
+} as Env;
+
+const exp = () => Math.floor(Date.now() / 1000) + 60;
+
+describe('verifyToken', () => {
+	it('accepts a valid token bound to an IP prefix', async () => {
+		const token = await createToken({ exp: exp(), ip: '203.0.113.0/24' }, 'hash', testEnv);
+		const result = await verifyToken(token, { urlHASH: 'hash', ip: '203.0.113.57' }, testEnv);
+		expect(result.ok).toBe(true);
+	});
+
+	it('accepts tokens signed with any active key', async () => {
+		const token = await createToken({ exp: exp() }, 'hash', { ...testEnv, SIGNING_KEY_ID: 'old' });
+		expect((await verifyToken(token, { urlHASH: 'hash' }, testEnv)).ok).toBe(true);
+	});
+
+	it('returns distinct codes for each failure', async () => {
+		const token = await createToken({ exp: exp(), ip: '203.0.113.7' }, 'hash', testEnv);
+
+		expect(await verifyToken(token, { urlHASH: 'other' }, testEnv)).toEqual({ ok: false, code: 'mismatch' });
+		expect(await verifyToken(token, { urlHASH: 'hash', ip: '198.51.100.1' }, testEnv)).toEqual({ ok: false, code: 'ip_mismatch' });
+		expect(await verifyToken(token, { urlHASH: 'hash' }, testEnv, Date.now() + 120_000)).toEqual({ ok: false, code: 'expired' });
+		expect(await verifyToken(token, { urlHASH: 'hash' }, { ...testEnv, SIGNING_KEYS: '{}' })).toEqual({ ok: false, code: 'unknown_key' });
+		expect(await verifyToken('not-a-token', { urlHASH: 'hash' }, testEnv)).toEqual({ ok: false, code: 'malformed' });
+	});
+
+	it('rejects key IDs that only exist on Object.prototype', async () => {
+		// Signed with the string an object lookup of "constructor" would coerce to
+		for (const kid of ['constructor', 'toString', '__proto__']) {
+			const forgedEnv = { ...testEnv, SIGNING_KEYS: JSON.stringify({ [kid]: String(({} as Record<string, unknown>)[kid]) }) } as Env;
+			const payload = { exp: exp(), ip: '0.0.0.0/0', tier: 'unlimited' };
+			const forged = await createToken(payload, 'hash', { ...forgedEnv, SIGNING_KEY_ID: kid });
+			expect(await verifyToken(forged, { urlHASH: 'hash', ip: '203.0.113.1' }, testEnv)).toEqual({ ok: false, code: 'unknown_key' });
+		}
+	});
+
+	it('ignores secrets that are not strings', async () => {
+		const token = await createToken({ exp: exp() }, 'hash', { ...testEnv, SIGNING_KEY_ID: 'old' });
+		const numericEnv = { ...testEnv, SIGNING_KEYS: JSON.stringify({ old: 1234 }) } as Env;
+		expect(await verifyToken(token, { urlHASH: 'hash' }, numericEnv)).toEqual({ ok: false, code: 'unknown_key' });
+	});
+});
+
+describe('checkSignature', () => {
+	const signedRequest = (sig: string, ip = '203.0.113.7') => {
+		const request = new Request('https://example.com/download/hash', {
+			headers: { 'cf-connecting-ip': ip },
+		}) as unknown as IRequest;
+		request.query = { sig };
+		request.urlHASH = 'hash';
+		return request;
+	};
+
+	it('accepts the legacy signature of the client IP only', async () => {
+		const sig = await generateSignature('203.0.113.7', testEnv.SECRET);
+		expect(await checkSignature(signedRequest(sig), testEnv, 'ip')).toBeNull();
+
+		const other = await generateSignature('203.0.113.8', testEnv.SECRET);
+		expect((await checkSignature(signedRequest(other), testEnv, 'ip'))?.status).toBe(405);
+		expect((await checkSignature(signedRequest(sig.slice(1)), testEnv, 'ip'))?.status).toBe(405);
+	});
+
+	it('accepts the legacy prefix signature XFS makes for an IPv6 client', async () => {
+		// HMAC-SHA256 of "2001:db8::/64" with "test-secret", base64url, as XFS signs it
+		const sig = 'JhmWvwFor5YyQayK17EdS7EF_FhrlTpLgnhPYJ9Um3I';
+		expect(await checkSignature(signedRequest(sig, '2001:db8::8d3:0:0:1'), testEnv, 'prefix')).toBeNull();
+		expect((await checkSignature(signedRequest(sig, '2001:db8:0:1::1'), testEnv, 'prefix'))?.status).toBe(405);
+	});
+});
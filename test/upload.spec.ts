@@ -0,0 +1,136 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import type { IRequest } from 'itty-router';
+import { upload } from '../src/routes/upload';
+import { encryptUrlHash } from '../src/utils/url-hash';
+
+const testEnv = {
+	...env,
+	SECRET: 'test-secret',
+	SIGNATURE_MODE: 'off',
+} as Env;
+
+const uploadRequest = (urlHASH: string, body: BodyInit | null, headers: Record<string, string> = {}) => {
+	const request = new Request(`https://example.com/upload/${urlHASH}`, { method: 'PUT', body, headers }) as unknown as IRequest;
+	Object.assign(request, { urlHASH, query: {} });
+	return request;
+};
+
+const sha1Hex = async (data: string) => {
+	const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(data));
+	return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+describe('upload route', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('sends native B2 uploads to the upload pod as a POST with the SHA-1', async () => {
+		const pod = 'https://pod-000-1118-16.backblaze.com';
+		const path = '/b2api/v2/b2_upload_file/4a48fe8875c6214145260818/c001_v0001007_t0042';
+		const urlHASH = await encryptUrlHash(`${pod}${path}`, testEnv.SECRET, 'upload');
+
+		let sent: { headers: Record<string, string>, body: string } | null = null;
+		fetchMock.get(pod)
+			.intercept({ method: 'POST', path })
+			.reply(options => {
+				sent = { headers: options.headers as Record<string, string>, body: String(options.body) };
+				return { statusCode: 200, data: '{"fileId":"4_z1"}' };
+			});
+
+		const body = 'hello b2';
+		const response = await upload(uploadRequest(urlHASH, body, { 'content-length': body.length.toString() }), testEnv);
+		expect(response.status).toBe(200);
+
+		// Without a SHA-1 from the client, B2 reads it from the 40 hex digits after the body
+		const sha1 = await sha1Hex(body);
+		expect(sent!.headers['x-bz-content-sha1']).toBe('hex_digits_at_end');
+		expect(sent!.headers['content-length']).toBe((body.length + 40).toString());
+		expect(sent!.body).toBe(body + sha1);
+		expect(response.headers.get('x-checksum-sha1')).toBe(sha1);
+	});
+
+	it('streams a plain upload to the origin with its declared length', async () => {
+		const target = 'https://s3.us-west-004.backblazeb2.com/bucket/stream.bin';
+		const urlHASH = await encryptUrlHash(target, testEnv.SECRET, 'upload');
+
+		let sent: { method: string, length: string, body: string } | null = null;
+		fetchMock.get('https://s3.us-west-004.backblazeb2.com')
+			.intercept({ method: 'PUT', path: '/bucket/stream.bin' })
+			.reply(options => {
+				const headers = options.headers as Record<string, string>;
+				sent = { method: options.method, length: headers['content-length'], body: String(options.body) };
+				return { statusCode: 200, data: '', responseOptions: { headers: { etag: '"stored"' } } };
+			});
+
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(new TextEncoder().encode('first '));
+				controller.enqueue(new TextEncoder().encode('second'));
+				controller.close();
+			},
+		});
+		const response = await upload(uploadRequest(urlHASH, body, { 'content-length': '12' }), testEnv);
+		expect(response.status).toBe(200);
+		expect(response.headers.get('etag')).toBe('"stored"');
+		expect(sent).toEqual({ method: 'PUT', length: '12', body: 'first second' });
+	});
+
+	it('needs the length up front', async () => {
+		const urlHASH = await encryptUrlHash('https://s3.us-west-004.backblazeb2.com/bucket/a', testEnv.SECRET, 'upload');
+		const body = new ReadableStream<Uint8Array>({ start: controller => controller.close() });
+		expect((await upload(uploadRequest(urlHASH, body), testEnv)).status).toBe(411);
+	});
+
+	it('refuses bodies over MAX_UPLOAD_BYTES or their declared length', async () => {
+		const target = 'https://s3.us-west-004.backblazeb2.com/bucket/large.bin';
+		const urlHASH = await encryptUrlHash(target, testEnv.SECRET, 'upload');
+
+		const limited = { ...testEnv, MAX_UPLOAD_BYTES: '4' } as Env;
+		expect((await upload(uploadRequest(urlHASH, 'too large', { 'content-length': '9' }), limited)).status).toBe(413);
+
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(new TextEncoder().encode('more than four'));
+				controller.close();
+			},
+		});
+		expect((await upload(uploadRequest(urlHASH, body, { 'content-length': '4' }), testEnv)).status).toBe(413);
+	});
+
+	it('answers 499 when the client goes away mid-upload', async () => {
+		const target = 'https://s3.us-west-004.backblazeb2.com/bucket/aborted.bin';
+		const urlHASH = await encryptUrlHash(target, testEnv.SECRET, 'upload');
+
+		let pulls = 0;
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (pulls++ === 0) {
+					controller.enqueue(new TextEncoder().encode('half'));
+				} else {
+					controller.error(new Error('client disconnected'));
+				}
+			},
+		});
+		expect((await upload(uploadRequest(urlHASH, body, { 'content-length': '8' }), testEnv)).status).toBe(499);
+	});
+
+	it('answers 504 when the origin takes too long', async () => {
+		const target = 'https://s3.us-west-004.backblazeb2.com/bucket/slow.bin';
+		const urlHASH = await encryptUrlHash(target, testEnv.SECRET, 'upload');
+		const impatient = {
+			...testEnv,
+			STORAGE_PROVIDERS: JSON.stringify([{ name: 'b2', hosts: ['*.backblazeb2.com'], uploadTimeoutMs: 50 }]),
+		} as Env;
+
+		fetchMock.get('https://s3.us-west-004.backblazeb2.com')
+			.intercept({ method: 'PUT', path: '/bucket/slow.bin' })
+			.reply(200, '')
+			.delay(500);
+		expect((await upload(uploadRequest(urlHASH, 'data', { 'content-length': '4' }), impatient)).status).toBe(504);
+	});
+});
@@ -0,0 +1,46 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { base64UrlEncode } from '../src/utils';
+import { decodeUrlHash, encryptUrlHash, legacyHashesAllowed } from '../src/utils/url-hash';
+
+const testEnv = { ...env, SECRET: 'test-secret', IV_SECRET: 'test-iv-secret-0' } as Env;
+const fileUrl = 'https://f000.backblazeb2.com/file/bucket/movie.mp4';
+
+// Mirrors what the XFS script produces for legacy links
+const legacyHash = async (content: string) => {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(testEnv.SECRET));
+	const key = await crypto.subtle.importKey('raw', digest.slice(0, 16), { name: 'AES-CBC' }, false, ['encrypt']);
+	const iv = new TextEncoder().encode(testEnv.IV_SECRET).slice(0, 16);
+	return base64UrlEncode(await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, new TextEncoder().encode(content)));
+};
+
+describe('decodeUrlHash', () => {
+	it('round-trips the GCM format with a random IV', async () => {
+		const first = await encryptUrlHash(fileUrl, testEnv.SECRET);
+		const second = await encryptUrlHash(fileUrl, testEnv.SECRET);
+		expect(first).not.toBe(second);
+		expect(await decodeUrlHash(first, testEnv, 'download')).toBe(fileUrl);
+	});
+
+	it('rejects route-bound hashes on other routes', async () => {
+		const hash = await encryptUrlHash(fileUrl, testEnv.SECRET, 'upload');
+		expect(await decodeUrlHash(hash, testEnv, 'upload')).toBe(fileUrl);
+		await expect(decodeUrlHash(hash, { ...testEnv, LEGACY_HASH_CUTOFF: '1' }, 'download')).rejects.toThrow();
+	});
+
+	it('accepts legacy CBC hashes until the cutoff', async () => {
+		const hash = await legacyHash(fileUrl);
+		expect(await decodeUrlHash(hash, testEnv, 'download')).toBe(fileUrl);
+		await expect(decodeUrlHash(hash, { ...testEnv, LEGACY_HASH_CUTOFF: '2000-01-01' }, 'download')).rejects.toThrow(
+			'Legacy URL hashes are no longer accepted'
+		);
+	});
+
+	it('rejects legacy CBC hashes when the cutoff is not a date', async () => {
+		const hash = await legacyHash(fileUrl);
+		expect(legacyHashesAllowed({ ...testEnv, LEGACY_HASH_CUTOFF: 'next year' })).toBe(false);
+		await expect(decodeUrlHash(hash, { ...testEnv, LEGACY_HASH_CUTOFF: 'next year' }, 'download')).rejects.toThrow(
+			'Legacy URL hashes are no longer accepted'
+		);
+	});
+});
@@ -5,6 +5,18 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.json' },
+				miniflare: {
+					bindings: {
+						ORIGIN_ALLOWLIST: 'f000.backblazeb2.com, s3.us-west-004.backblazeb2.com, *.backblaze.com',
+						// Small enough for the slow client and replay tests to overrun quickly
+						COALESCE_CLIENT_MAX_BUFFERED_BYTES: '65536',
+						REPLAY_BUFFER_MEMORY_BYTES: '65536',
+						// Room for one paced client's 1 MiB backlog, but not for two
+						COALESCE_MEMORY_BUDGET_BYTES: '1572864',
+						// Resume broken origin bodies without waiting half a second per attempt
+						COALESCE_RESUME_BACKOFF_MS: '10',
+					},
+				},
 			},
 		},
 	},
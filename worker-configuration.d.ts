@@ -3,6 +3,86 @@
 interface Env {
 	SECRET: string;
 	IV_SECRET: string;
+	// Legacy AES-CBC URL hashes are rejected from this ISO date or unix time on (unset: always accepted, unparseable: always rejected)
+	LEGACY_HASH_CUTOFF?: string;
+	// JSON object of key ID to secret for signed tokens, plus the key ID new tokens are signed with
+	SIGNING_KEYS?: string;
+	SIGNING_KEY_ID?: string;
+	// Signature enforcement for /download and /upload: off, ip, prefix or token
+	SIGNATURE_MODE?: string;
+	// Comma-separated CIDRs whose X-Forwarded-For / X-Real-IP headers are trusted
+	TRUSTED_PROXIES?: string;
+	// Largest accepted upload in bytes (0 disables the limit)
+	MAX_UPLOAD_BYTES?: string;
 	// Durable Object binding for request coalescing
 	DOWNLOAD_COALESCER: DurableObjectNamespace;
+	// Durable Object binding for resumable multipart uploads, keyed by upload ID
+	UPLOAD_SESSION: DurableObjectNamespace;
+	// Durable Object binding for per-origin circuit breakers, keyed by origin host
+	CIRCUIT_BREAKER: DurableObjectNamespace;
+	// Failure rate (0-1) over the window that opens a circuit, once it has seen enough requests
+	CIRCUIT_ERROR_RATE?: string;
+	CIRCUIT_MIN_REQUESTS?: string;
+	CIRCUIT_WINDOW_MS?: string;
+	// How long an open circuit rejects requests before letting a probe through
+	CIRCUIT_OPEN_MS?: string;
+	// Longest cool-down an origin's Retry-After can ask for
+	CIRCUIT_MAX_OPEN_MS?: string;
+	// Durable Object binding for rate limiting token buckets, keyed by route, scope and subject
+	RATE_LIMITER: DurableObjectNamespace;
+	// JSON object of route to scope (ip, file, route) to { capacity, refillPerSecond }
+	RATE_LIMITS?: string | import('./src/utils/rate-limit').RateLimitConfig;
+	// Durable Object binding counting open downloads, keyed by user ID or IP
+	CONNECTION_LIMITER: DurableObjectNamespace;
+	// How long a download's connection slot lives without being renewed
+	CONNECTION_LEASE_TTL_MS?: string;
+	// Durable Object binding aggregating bytes served, spread over USAGE_SHARDS instances
+	USAGE_ACCUMULATOR: DurableObjectNamespace;
+	USAGE_SHARDS?: string;
+	// Where usage batches go: a Queue, or a webhook signed with USAGE_WEBHOOK_SECRET (defaults to SECRET)
+	USAGE_QUEUE?: Queue;
+	USAGE_WEBHOOK_URL?: string;
+	USAGE_WEBHOOK_SECRET?: string;
+	// How often totals are sent, and the first retry delay for a failed batch (doubles after)
+	USAGE_FLUSH_INTERVAL_MS?: string;
+	USAGE_RETRY_BASE_MS?: string;
+	// Durable Object binding listing busy coalescers and their counters, for the admin API
+	COALESCER_REGISTRY: DurableObjectNamespace;
+	// Bearer token for the /admin routes (unset: the routes answer 404)
+	ADMIN_SECRET?: string;
+	// JSON object of download speed tier to { bytesPerSecond, maxConnections }
+	TIERS?: string | import('./src/utils/tiers').TiersConfig;
+	// R2 bucket served directly when a payload names it instead of a URL
+	BUCKET?: R2Bucket;
+	// S3 API credentials used to sign multipart upload calls (region defaults from the host)
+	S3_ACCESS_KEY_ID?: string;
+	S3_SECRET_ACCESS_KEY?: string;
+	S3_REGION?: string;
+	// Replay buffer limits for late joiners (bytes kept in memory / spilled to DO storage)
+	REPLAY_BUFFER_MEMORY_BYTES?: string;
+	REPLAY_BUFFER_SPILL_BYTES?: string;
+	// How far ahead of an in-flight session a range request may start and still join it
+	RANGE_JOIN_MAX_GAP_BYTES?: string;
+	// Times a broken origin stream is re-requested from its offset, and the backoff before the first retry (doubles after)
+	COALESCE_RESUME_MAX_ATTEMPTS?: string;
+	COALESCE_RESUME_BACKOFF_MS?: string;
+	// How often a coalescer reports its sessions and counters to the registry
+	COALESCE_REGISTRY_FLUSH_MS?: string;
+	// Unread bytes a coalesced client may fall behind before it is moved to a direct fetch
+	COALESCE_CLIENT_MAX_BUFFERED_BYTES?: string;
+	// Bytes all sessions and clients of one coalescer DO may hold in memory before paced clients are detached too
+	COALESCE_MEMORY_BUDGET_BYTES?: string;
+	// Split coalesced downloads into aligned blocks of this many bytes, at most COALESCE_CLIENT_MAX_BUFFERED_BYTES (0 disables block mode)
+	COALESCE_BLOCK_SIZE?: string;
+	// Number of DO shards blocks are spread over (0 gives every block its own shard)
+	COALESCE_BLOCK_SHARDS?: string;
+	// Edge cache TTL in seconds (off when unset or 0) and largest response stored whole
+	EDGE_CACHE_TTL?: string;
+	EDGE_CACHE_MAX_BYTES?: string;
+	// Extra storage providers as a JSON array, checked before the built-in ones
+	STORAGE_PROVIDERS?: string | import('./src/utils/providers').ProviderConfig[];
+	// Comma-separated origin host patterns, schemes and extra ports the worker may fetch (no origin is allowed without hosts)
+	ORIGIN_ALLOWLIST?: string;
+	ORIGIN_ALLOWED_SCHEMES?: string;
+	ORIGIN_ALLOWED_PORTS?: string;
 }